@@ -3,6 +3,9 @@ module.exports = {
   roots: ['<rootDir>/test'],
   testMatch: ['**/*.test.ts'],
   transform: {
-    '^.+\\.tsx?$': 'ts-jest'
-  }
+    '^.+\\.tsx?$': 'ts-jest',
+    // nanoid only ships ES modules
+    '^.+\\.js$': ['ts-jest', { tsconfig: { allowJs: true } }]
+  },
+  transformIgnorePatterns: ['/node_modules/(?!nanoid/)']
 };
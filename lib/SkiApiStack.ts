@@ -6,6 +6,10 @@ import { HttpApi, CorsHttpMethod, HttpMethod, HttpRoute, HttpRouteKey, HttpInteg
 import { HttpLambdaIntegration as V2Integration } from "aws-cdk-lib/aws-apigatewayv2-integrations";
 import * as path from "path";
 import { NodejsFunction, OutputFormat } from "aws-cdk-lib/aws-lambda-nodejs";
+import { Rule, Schedule } from "aws-cdk-lib/aws-events";
+import { LambdaFunction } from "aws-cdk-lib/aws-events-targets";
+import { Secret } from "aws-cdk-lib/aws-secretsmanager";
+import { routesByPath } from "../src/routeTable";
 
 export class SkiApiStack extends Stack {
   constructor(scope: Construct, id: string, props?: StackProps) {
@@ -26,6 +30,24 @@ export class SkiApiStack extends Stack {
     //   removalPolicy: /* NOT for prod */ 0 as any, // keep default, or use RemovalPolicy.RETAIN
     // });
 
+    const seasons = new Table(this, "Seasons", {
+      tableName: "Seasons",
+      partitionKey: { name: "seasonId", type: AttributeType.STRING },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+    });
+
+    const ruleSets = new Table(this, "RuleSets", {
+      tableName: "RuleSets",
+      partitionKey: { name: "ruleSetId", type: AttributeType.STRING },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+    });
+
+    const users = new Table(this, "Users", {
+      tableName: "Users",
+      partitionKey: { name: "userId", type: AttributeType.STRING },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+    });
+
     const teams = new Table(this, "Teams", {
       tableName: "Teams",
       partitionKey: { name: "teamId", type: AttributeType.STRING },
@@ -43,11 +65,50 @@ export class SkiApiStack extends Stack {
       projectionType: ProjectionType.ALL,
     });
 
+    const coOps = new Table(this, "CoOps", {
+      tableName: "CoOps",
+      partitionKey: { name: "coOpId", type: AttributeType.STRING },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+    });
+    // A season's co-ops
+    coOps.addGlobalSecondaryIndex({
+      indexName: "bySeason",
+      partitionKey: { name: "seasonId", type: AttributeType.STRING },
+      projectionType: ProjectionType.ALL,
+    });
+
     const races = new Table(this, "Races", {
       tableName: "Races",
       partitionKey: { name: "raceId", type: AttributeType.STRING },
       billingMode: BillingMode.PAY_PER_REQUEST,
     });
+    // A season's races in date order
+    races.addGlobalSecondaryIndex({
+      indexName: "bySeason",
+      partitionKey: { name: "seasonId", type: AttributeType.STRING },
+      sortKey: { name: "date", type: AttributeType.STRING },
+      projectionType: ProjectionType.ALL,
+    });
+    // Every race held at a venue, across seasons. One new index per deploy on an existing table:
+    // see "Upgrading an existing stack" in the README.
+    races.addGlobalSecondaryIndex({
+      indexName: "byVenue",
+      partitionKey: { name: "venueId", type: AttributeType.STRING },
+      sortKey: { name: "date", type: AttributeType.STRING },
+      projectionType: ProjectionType.ALL,
+    });
+
+    const venues = new Table(this, "Venues", {
+      tableName: "Venues",
+      partitionKey: { name: "venueId", type: AttributeType.STRING },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+    });
+
+    const raceTemplates = new Table(this, "RaceTemplates", {
+      tableName: "RaceTemplates",
+      partitionKey: { name: "templateId", type: AttributeType.STRING },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+    });
 
     const rosters = new Table(this, "Rosters", {
       tableName: "Rosters",
@@ -70,6 +131,33 @@ export class SkiApiStack extends Stack {
       billingMode: BillingMode.PAY_PER_REQUEST,
     });
 
+    // Who changed what; queried per race and per team (items without the key stay out of that index)
+    const audit = new Table(this, "Audit", {
+      tableName: "Audit",
+      partitionKey: { name: "auditId", type: AttributeType.STRING },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+    });
+    audit.addGlobalSecondaryIndex({
+      indexName: "byRace",
+      partitionKey: { name: "raceId", type: AttributeType.STRING },
+      sortKey: { name: "at", type: AttributeType.STRING },
+      projectionType: ProjectionType.ALL,
+    });
+    audit.addGlobalSecondaryIndex({
+      indexName: "byTeam",
+      partitionKey: { name: "teamId", type: AttributeType.STRING },
+      sortKey: { name: "at", type: AttributeType.STRING },
+      projectionType: ProjectionType.ALL,
+    });
+
+    // Stored responses for Idempotency-Key retries; DynamoDB drops them after expiresAt
+    const idempotency = new Table(this, "Idempotency", {
+      tableName: "Idempotency",
+      partitionKey: { name: "key", type: AttributeType.STRING },
+      timeToLiveAttribute: "expiresAt",
+      billingMode: BillingMode.PAY_PER_REQUEST,
+    });
+
     // Lambda (monolith handler with tiny router)
     // const apiFn = new LambdaFn(this, "ApiFn", {
     //   runtime: Runtime.NODEJS_20_X,
@@ -103,6 +191,34 @@ export class SkiApiStack extends Stack {
     //   },
     // });
 
+    const tableEnv = {
+      SEASONS_TABLE: seasons.tableName,
+      RULE_SETS_TABLE: ruleSets.tableName,
+      USERS_TABLE: users.tableName,
+      TEAMS_TABLE: teams.tableName,
+      CO_OPS_TABLE: coOps.tableName,
+      RACERS_TABLE: racers.tableName,
+      RACES_TABLE: races.tableName,
+      VENUES_TABLE: venues.tableName,
+      RACE_TEMPLATES_TABLE: raceTemplates.tableName,
+      ROSTERS_TABLE: rosters.tableName,
+      STARTLISTS_TABLE: startLists.tableName,
+      RESULTS_TABLE: results.tableName,
+      AUDIT_TABLE: audit.tableName,
+      IDEMPOTENCY_TABLE: idempotency.tableName,
+    };
+    const dataTables = [seasons, ruleSets, users, teams, coOps, racers, races, venues, raceTemplates, rosters, startLists, results, audit, idempotency];
+
+    // Bearer tokens are verified with JWT_PUBLIC_KEY (RS256) when set, otherwise with the HS256 secret
+    // in the Secrets Manager secret named JWT_SECRET_NAME, which the Lambda reads at cold start. The
+    // secret itself never goes into the template or the function's environment.
+    const jwtPublicKey = process.env.JWT_PUBLIC_KEY;
+    const jwtSecretName = process.env.JWT_SECRET_NAME;
+    if (!jwtPublicKey && !jwtSecretName) {
+      throw new Error("Set JWT_PUBLIC_KEY or JWT_SECRET_NAME (a Secrets Manager secret holding the HS256 key) before synthesizing");
+    }
+    const jwtSecret = jwtPublicKey ? undefined : Secret.fromSecretNameV2(this, "JwtSecret", jwtSecretName!);
+
     const apiFn = new NodejsFunction(this, "ApiFn", {
       // Point this to your TS entry file (the one that exports `handler`)
       entry: path.join(__dirname, "../src/index.ts"),
@@ -123,26 +239,36 @@ export class SkiApiStack extends Stack {
       },
 
       environment: {
-        TEAMS_TABLE: teams.tableName,
-        RACERS_TABLE: racers.tableName,
-        RACES_TABLE: races.tableName,
-        ROSTERS_TABLE: rosters.tableName,
-        STARTLISTS_TABLE: startLists.tableName,
-        RESULTS_TABLE: results.tableName,
+        ...tableEnv,
+        ...(jwtPublicKey ? { JWT_PUBLIC_KEY: jwtPublicKey } : { JWT_SECRET_NAME: jwtSecretName! }),
+        JWT_ISSUER: process.env.JWT_ISSUER ?? "",
       },
     });
 
-    teams.grantReadWriteData(apiFn);
-    racers.grantReadWriteData(apiFn);
-    races.grantReadWriteData(apiFn);
-    rosters.grantReadWriteData(apiFn);
-    startLists.grantReadWriteData(apiFn);
-    results.grantReadWriteData(apiFn);
+    dataTables.forEach(t => t.grantReadWriteData(apiFn));
+    jwtSecret?.grantRead(apiFn);
+
+    // Locks rosters once a race's rosterDeadline passes (src/jobs/lockRosters.ts)
+    const lockRostersFn = new NodejsFunction(this, "LockRostersFn", {
+      entry: path.join(__dirname, "../src/jobs/lockRosters.ts"),
+      handler: "handler",
+      runtime: Runtime.NODEJS_20_X,
+      memorySize: 256,
+      timeout: Duration.minutes(2),
+      bundling: { format: OutputFormat.CJS, target: "node20", minify: true, sourceMap: true, externalModules: [] },
+      environment: tableEnv,
+    });
+    dataTables.forEach(t => t.grantReadWriteData(lockRostersFn));
+    new Rule(this, "LockRostersSchedule", {
+      schedule: Schedule.rate(Duration.minutes(5)),
+      targets: [new LambdaFunction(lockRostersFn)],
+    });
 
     const api = new HttpApi(this, "RaceManagerApi", {
       corsPreflight: {
         allowHeaders: ["*"],
         allowMethods: [CorsHttpMethod.ANY],
+        exposeHeaders: ["etag", "idempotent-replayed"],
         allowOrigins: ["*"], // tighten later
       },
     });
@@ -155,103 +281,12 @@ export class SkiApiStack extends Stack {
     //   integration,
     //   methods: [HttpMethod.ANY],
     // });
-    api.addRoutes(
-    {
-      path: "/races",
-          integration,
-          methods: [HttpMethod.GET, HttpMethod.POST]
-    
-    });
-    api.addRoutes(
-    {
-      path: "/races/{raceId}",
-          integration,
-          methods: [HttpMethod.GET, HttpMethod.PATCH, HttpMethod.DELETE]
-    
-    });
-    api.addRoutes(
-    {
-      path: "/teams/{teamId}",
-          integration,
-          methods: [HttpMethod.GET, HttpMethod.PATCH]
-    
-    });
-    api.addRoutes(
-    {
-      path: "/teams/{teamId}/racers",
-          integration,
-          methods: [HttpMethod.POST]
-    
-    });
-    api.addRoutes(
-    {
-      path: "/teams/{teamId}/racers/{racerId}",
-          integration,
-          methods: [HttpMethod.PATCH]
-    
-    });
-    api.addRoutes(
-    {
-      path: "/teams/{teamId}/racers/{racerId}",
-          integration,
-          methods: [HttpMethod.DELETE]
-    
-    });
-
-    //--- roster routes
-    api.addRoutes(
-    {
-      path: "/races/{raceId}/roster/{teamId}",
-          integration,
-          methods: [HttpMethod.GET]
-    
-    });
-    api.addRoutes(
-    {
-      path: "/races/{raceId}/roster/{teamId}/add",
-          integration,
-          methods: [HttpMethod.POST]
-    
-    });
-api.addRoutes(
-    {
-      path: "/races/{raceId}/roster/{teamId}/entry/{racerId}",
-          integration,
-          methods: [HttpMethod.PATCH]
-    
-    });
-     api.addRoutes(
-    {
-      path: "/races/{raceId}/roster/{teamId}/move",
-          integration,
-          methods: [HttpMethod.POST]
-    
-    });
-    api.addRoutes(
-    {
-      path: "/races/{raceId}/roster/{teamId}/entry/{racerId}",
-          integration,
-          methods: [HttpMethod.DELETE]
-    
-    });
-    api.addRoutes(
-    {
-      path: "/races/{toRaceId}/roster/{teamId}/copy",
-          integration,
-          methods: [HttpMethod.POST]
-    
-    });
-    // start list routes
-    api.addRoutes({ path: "/races/{raceId}/start-list/generate", integration, methods: [HttpMethod.POST] });
-    api.addRoutes({ path: "/races/{raceId}/start-list/copy", integration, methods: [HttpMethod.POST] });
-    api.addRoutes({ path: "/races/{raceId}/start-list/entry", integration, methods: [HttpMethod.POST] });
-    api.addRoutes({ path: "/races/{raceId}/start-list", integration, methods: [HttpMethod.GET] });
-    api.addRoutes({ path: "/races/{raceId}/start-list/excluded", integration, methods: [HttpMethod.GET] });
-    api.addRoutes({ path: "/races/{raceId}/start-list/excluded", integration, methods: [HttpMethod.POST] });
-    api.addRoutes({ path: "/races/{raceId}/start-list/bib", integration, methods: [HttpMethod.PATCH] });
-    api.addRoutes({ path: "/races/{raceId}/results", integration, methods: [HttpMethod.GET] });
-    api.addRoutes({ path: "/races/{raceId}/results", integration, methods: [HttpMethod.POST] });
-    api.addRoutes({ path: "/races/{raceId}/results/recalc", integration, methods: [HttpMethod.POST] });
+    // Routes come from the same table the Lambda router matches against (src/routeTable.ts)
+    for (const [routePath, methods] of routesByPath()) {
+      api.addRoutes({ path: routePath, integration, methods: methods.map(m => HttpMethod[m]) });
+    }
+    // Anything else still reaches the handler so it can answer 404/405 consistently
+    api.addRoutes({ path: "/{proxy+}", integration, methods: [HttpMethod.ANY] });
 
     new CfnOutput(this, "ApiUrl", { value: api.apiEndpoint });
 
@@ -0,0 +1,99 @@
+// backend/scripts/dev.ts
+// Serves the Lambda handler over plain HTTP, backed by in-memory tables preloaded with the seed data.
+//   npm run dev                          -> http://localhost:3001
+//   PORT=4000 DEV_DB_FILE=.devdb.json npm run dev  -> keep data between restarts
+import "./devEnv";
+import * as fs from "fs";
+import * as http from "http";
+import { createHmac } from "crypto";
+import { APIGatewayProxyEventV2 } from "aws-lambda";
+import { handler } from "../src/index";
+import { handler as lockRosters } from "../src/jobs/lockRosters";
+import { responseDrift } from "../src/openapi";
+import { useRepos } from "../src/repos";
+import { createMemoryRepos, emptyMemoryState, MemoryState } from "../src/repos/memory";
+import { matchRoute } from "../src/routeTable";
+import { users, writeSeed } from "./seedData";
+
+const PORT = Number(process.env.PORT || 3001);
+const DB_FILE = process.env.DEV_DB_FILE;
+
+function signDevToken(claims: Record<string, unknown>) {
+  const enc = (v: unknown) => Buffer.from(JSON.stringify(v)).toString("base64url");
+  const input = `${enc({ alg: "HS256", typ: "JWT" })}.${enc(claims)}`;
+  const sig = createHmac("sha256", process.env.JWT_SECRET!).update(input).digest("base64url");
+  return `${input}.${sig}`;
+}
+
+function toEvent(req: http.IncomingMessage, body: string): APIGatewayProxyEventV2 {
+  const url = new URL(req.url || "/", `http://localhost:${PORT}`);
+  const headers: Record<string, string> = {};
+  for (const [k, v] of Object.entries(req.headers)) {
+    if (v !== undefined) headers[k] = Array.isArray(v) ? v.join(",") : v;
+  }
+  const query = Object.fromEntries(url.searchParams.entries());
+  const method = (req.method || "GET").toUpperCase();
+  return {
+    version: "2.0",
+    routeKey: "$default",
+    rawPath: url.pathname,
+    rawQueryString: url.search.replace(/^\?/, ""),
+    headers,
+    queryStringParameters: Object.keys(query).length ? query : undefined,
+    body: body || undefined,
+    isBase64Encoded: false,
+    requestContext: {
+      http: { method, path: url.pathname, protocol: "HTTP/1.1", sourceIp: req.socket.remoteAddress || "", userAgent: headers["user-agent"] || "" },
+    },
+  } as APIGatewayProxyEventV2;
+}
+
+async function main() {
+  const seeded = !!DB_FILE && fs.existsSync(DB_FILE);
+  const state: MemoryState = seeded ? JSON.parse(fs.readFileSync(DB_FILE!, "utf8")) : emptyMemoryState();
+  const repos = createMemoryRepos(state);
+  useRepos(repos);
+  if (!seeded) await writeSeed(repos, () => undefined);
+  const save = async () => {
+    if (DB_FILE) await fs.promises.writeFile(DB_FILE, JSON.stringify(state, null, 2));
+  };
+  await save();
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (c: Buffer) => chunks.push(c));
+    req.on("end", async () => {
+      const event = toEvent(req, Buffer.concat(chunks).toString("utf8"));
+      const result = await handler(event);
+      if (event.requestContext.http.method !== "GET") {
+        await save().catch(err => console.error(`Could not save ${DB_FILE}:`, err));
+      }
+      res.writeHead(result.statusCode ?? 200, result.headers);
+      res.end(result.body);
+      console.log(`${event.requestContext.http.method} ${event.rawPath} -> ${result.statusCode}`);
+      const match = matchRoute(event.requestContext.http.method, event.rawPath);
+      if (result.statusCode === 200 && match.kind === "match" && result.body) {
+        for (const problem of responseDrift(match.route, JSON.parse(result.body))) console.warn(`  openapi drift: ${problem}`);
+      }
+    });
+  });
+
+  // Stands in for the EventBridge schedule that runs the job in AWS.
+  const lockJob = setInterval(() => lockRosters().then(save).catch(err => console.error(err)), 60_000);
+  lockJob.unref();
+
+  server.listen(PORT, () => {
+    console.log(`Race manager API (in-memory${DB_FILE ? `, saved to ${DB_FILE}` : ""}) on http://localhost:${PORT}`);
+    console.log("\nBearer tokens for the seed users:");
+    const exp = Math.floor(Date.now() / 1000) + 30 * 24 * 3600;
+    for (const u of users) {
+      console.log(`  ${u.id} ${u.name} (${u.role}${u.teamIds.length ? ` ${u.teamIds.join(",")}` : ""})`);
+      console.log(`    ${signDevToken({ sub: u.id, name: u.name, exp })}`);
+    }
+  });
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,4 @@
+// Imported first by scripts/dev.ts. The dev server signs its tokens with JWT_SECRET, so HS256 must be
+// the verifier even when the shell has a JWT_PUBLIC_KEY; tables are in memory and need no names.
+process.env.JWT_SECRET ??= "dev-secret";
+delete process.env.JWT_PUBLIC_KEY;
@@ -0,0 +1,160 @@
+// backend/scripts/generateClient.ts
+/* eslint-disable no-console */
+// Writes a typed TypeScript client for the API, generated from the OpenAPI document that
+// GET /openapi.json serves:
+//   npm run generate-client                 -> client/
+//   npm run generate-client -- ../web/api   -> somewhere else
+import * as fs from "fs";
+import * as path from "path";
+import { buildOpenApiDocument, OpenApiSchema } from "../src/openapi";
+
+type Operation = {
+  operationId: string;
+  parameters?: { name: string; in: "path" | "query" | "header"; required: boolean; schema: OpenApiSchema }[];
+  requestBody?: { content: Record<string, { schema: OpenApiSchema }> };
+  responses: Record<string, { content?: Record<string, { schema: OpenApiSchema }>; headers?: Record<string, unknown> }>;
+};
+
+const outDir = path.resolve(process.argv[2] || path.join(__dirname, "..", "client"));
+
+function tsType(schema: OpenApiSchema, indent = ""): string {
+  const base = baseType(schema, indent);
+  return schema.nullable ? `${base} | null` : base;
+}
+
+function baseType(schema: OpenApiSchema, indent: string): string {
+  if (schema.$ref) return schema.$ref.split("/").pop()!;
+  if (schema.allOf) return schema.allOf.map(s => tsType(s, indent)).join(" & ");
+  if (schema.enum) return schema.enum.map(v => JSON.stringify(v)).join(" | ");
+  switch (schema.type) {
+    case "string": return "string";
+    case "integer":
+    case "number": return "number";
+    case "boolean": return "boolean";
+    case "array": {
+      const item = tsType(schema.items ?? {}, indent);
+      return /[|&]/.test(item) ? `(${item})[]` : `${item}[]`;
+    }
+    case "object": {
+      if (!schema.properties) return `Record<string, ${schema.additionalProperties ? tsType(schema.additionalProperties, indent) : "unknown"}>`;
+      const inner = `${indent}  `;
+      const fields = Object.entries(schema.properties).map(([key, prop]) => {
+        const optional = schema.required?.includes(key) ? "" : "?";
+        const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+        return `${inner}${name}${optional}: ${tsType(prop, inner)};`;
+      });
+      return `{\n${fields.join("\n")}\n${indent}}`;
+    }
+    default: return "unknown";
+  }
+}
+
+function renderOperation(route: string, method: string, op: Operation): string {
+  const pathParams = (op.parameters ?? []).filter(p => p.in === "path");
+  const queryParams = (op.parameters ?? []).filter(p => p.in === "query");
+  const ifMatch = (op.parameters ?? []).some(p => p.in === "header" && p.name === "If-Match");
+  const idempotent = (op.parameters ?? []).some(p => p.in === "header" && p.name === "Idempotency-Key");
+  const body = op.requestBody?.content["application/json"]?.schema;
+  const content = op.responses["200"]?.content ?? {};
+  const success = content["application/json"]?.schema;
+  // Non-JSON responses (text/calendar) come back as the raw text.
+  const text = !success && Object.keys(content).length > 0;
+  const versioned = !!op.responses["200"]?.headers?.ETag;
+
+  const args: string[] = [];
+  if (pathParams.length) args.push(`params: { ${pathParams.map(p => `${p.name}: string`).join("; ")} }`);
+  if (body) args.push(`body: ${tsType(body)}`);
+  if (ifMatch) args.push("ifMatch: string");
+  if (queryParams.length) args.push(`query: { ${queryParams.map(p => `${p.name}?: ${tsType(p.schema)}`).join("; ")} } = {}`);
+  if (idempotent) args.push("idempotencyKey?: string");
+
+  const url = "`" + route.replace(/\{(\w+)\}/g, (_m, name) => `\${encodeURIComponent(params.${name})}`) + "`";
+  const result = success ? tsType(success) : text ? "string" : "void";
+  const fields = [body && "body", queryParams.length && "query", ifMatch && "ifMatch", idempotent && "idempotencyKey"].filter(Boolean);
+  const opts = fields.length ? `{ ${fields.join(", ")} }` : "{}";
+  const call = versioned
+    ? `send<${result}>("${method.toUpperCase()}", ${url}, ${opts})`
+    : `send<${result}>("${method.toUpperCase()}", ${url}, ${opts}).then(r => r.data)`;
+  return `    ${op.operationId}: (${args.join(", ")}) => ${call},`;
+}
+
+function renderClient(): string {
+  const doc = buildOpenApiDocument();
+  const types = Object.entries(doc.components.schemas as Record<string, OpenApiSchema>)
+    .map(([name, schema]) => `export type ${name} = ${tsType(schema)};`);
+  const operations = Object.entries(doc.paths).flatMap(([route, methods]) =>
+    Object.entries(methods).map(([method, op]) => renderOperation(route, method, op as Operation)));
+
+  return `// Generated by scripts/generateClient.ts from the API's OpenAPI document. Do not edit.
+/* eslint-disable */
+
+${types.join("\n\n")}
+
+export class ApiError extends Error {
+  constructor(readonly status: number, readonly body: ErrorBody | undefined) {
+    super(body?.error.message ?? \`Request failed with status \${status}\`);
+  }
+}
+
+// Reads and writes of versioned resources also return the ETag to send as If-Match next time.
+export type Versioned<T> = { data: T; etag: string };
+
+export type ClientOptions = {
+  baseUrl: string;
+  // A bearer token, or a function returning the current one.
+  token?: string | (() => string | undefined);
+  fetch?: typeof fetch;
+};
+
+export function createClient(options: ClientOptions) {
+  const doFetch = options.fetch ?? fetch;
+
+  type SendOptions = { body?: unknown; query?: Record<string, unknown>; ifMatch?: string; idempotencyKey?: string };
+
+  async function send<T>(method: string, path: string, { body, query, ifMatch, idempotencyKey }: SendOptions): Promise<Versioned<T>> {
+    const qs = Object.entries(query ?? {})
+      .filter(([, v]) => v !== undefined)
+      .map(([k, v]) => \`\${encodeURIComponent(k)}=\${encodeURIComponent(String(v))}\`)
+      .join("&");
+    const token = typeof options.token === "function" ? options.token() : options.token;
+    const res = await doFetch(\`\${options.baseUrl.replace(/\\/$/, "")}\${path}\${qs ? \`?\${qs}\` : ""}\`, {
+      method,
+      headers: {
+        ...(body !== undefined ? { "content-type": "application/json" } : {}),
+        ...(token ? { authorization: \`Bearer \${token}\` } : {}),
+        ...(ifMatch ? { "if-match": ifMatch } : {}),
+        ...(idempotencyKey ? { "idempotency-key": idempotencyKey } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const text = await res.text();
+    const json = (res.headers.get("content-type") ?? "").includes("application/json");
+    const data = text && json ? JSON.parse(text) : text || undefined;
+    if (!res.ok) throw new ApiError(res.status, data);
+    return { data: data as T, etag: res.headers.get("etag") ?? "" };
+  }
+
+  return {
+${operations.join("\n")}
+  };
+}
+
+export type Client = ReturnType<typeof createClient>;
+`;
+}
+
+function main() {
+  fs.mkdirSync(outDir, { recursive: true });
+  fs.writeFileSync(path.join(outDir, "index.ts"), renderClient());
+  fs.writeFileSync(path.join(outDir, "openapi.json"), JSON.stringify(buildOpenApiDocument(), null, 2) + "\n");
+  fs.writeFileSync(path.join(outDir, "package.json"), JSON.stringify({
+    name: "race-manager-api-client",
+    version: "0.1.0",
+    private: true,
+    main: "index.ts",
+    types: "index.ts",
+  }, null, 2) + "\n");
+  console.log(`Wrote API client to ${outDir}`);
+}
+
+main();
@@ -0,0 +1,178 @@
+// backend/scripts/seedData.ts
+// Seed data shared by scripts/seed.ts (real tables) and scripts/dev.ts (in-memory tables).
+import { Repos } from "../src/repos";
+
+// ======== DATA (your mock data) ========
+// Minimal types
+export type Gender = "Male" | "Female";
+export type RacerClass = "Varsity" | "Varsity Alternate" | "Jr Varsity" | "Provisional" | "DNS";
+
+export type User = { id: string; name: string; role: "ADMIN" | "COACH"; teamIds: string[]; };
+export type Racer = { id: string; name: string; gender: Gender; class: RacerClass; teamId: string; };
+export type Team = { id: string; name: string; coachUserIds: string[]; racers: Racer[]; };
+export type Season = { id: string; name: string; startDate: string; endDate: string };
+export type Race = { id: string; name: string; location: string; date: string; type: "Slalom" | "Giant Slalom" };
+
+// ---- Paste from your mock API ----
+export const users: User[] = [
+  { id: "u1", name: "Geddy Admin", role: "ADMIN", teamIds: [] },
+  { id: "u2", name: "Coach Josh", role: "COACH", teamIds: ["t4"] },
+  { id: "u3", name: "Brad", role: "ADMIN", teamIds: [] },
+  { id: "u4", name: "Eastside Coach", role: "COACH", teamIds: ["t2", "t3", "t1"] },
+];
+
+let teams: Team[] = [
+  {
+    id: "t4",
+    name: "Sandy High School",
+    coachUserIds: ["u2"],
+    racers: [
+      { id: "r100", name: "Ansel Ofstie", gender: "Male", class: "Varsity", teamId: "t4" },
+      { id: "r101", name: "Mario Heckel", gender: "Male", class: "Varsity", teamId: "t4" },
+      { id: "r102", name: "Dylan Brown", gender: "Male", class: "Varsity", teamId: "t4" },
+      { id: "r103", name: "Grant Messinger", gender: "Male", class: "Varsity", teamId: "t4" },
+      { id: "r104", name: "Ethan Van Hee", gender: "Male", class: "Varsity", teamId: "t4" },
+      { id: "r105", name: "Beck Schreiner", gender: "Male", class: "Varsity Alternate", teamId: "t4" },
+      { id: "r106", name: "Kai Muntz", gender: "Male", class: "Jr Varsity", teamId: "t4" },
+      { id: "r107", name: "Max Kocubinski", gender: "Male", class: "Jr Varsity", teamId: "t4" },
+      { id: "r108", name: "Hayden Ferschweiler", gender: "Male", class: "Jr Varsity", teamId: "t4" },
+      { id: "r109", name: "Finley Lafayette", gender: "Male", class: "Jr Varsity", teamId: "t4" },
+      { id: "r110", name: "Ben Hohl", gender: "Male", class: "Jr Varsity", teamId: "t4" },
+      { id: "r111", name: "Jackson Mulick", gender: "Male", class: "Jr Varsity", teamId: "t4" },
+      { id: "r112", name: "Jameson Stone", gender: "Male", class: "Jr Varsity", teamId: "t4" },
+      { id: "r113", name: "Noah Lowery", gender: "Male", class: "Jr Varsity", teamId: "t4" },
+      { id: "r114", name: "Henry Bird", gender: "Male", class: "Jr Varsity", teamId: "t4" },
+      { id: "r115", name: "Ben Leiblein", gender: "Male", class: "Jr Varsity", teamId: "t4" },
+      { id: "r116", name: "Coen Fleming-Harris", gender: "Male", class: "Jr Varsity", teamId: "t4" },
+
+      // NOTE: The next racers belong to teamId "t5" (girls) even though they're listed here.
+      { id: "r200", name: "Anika Wipper", gender: "Female", class: "Varsity", teamId: "t5" },
+      { id: "r201", name: "Wallace Hamalanien", gender: "Female", class: "Varsity", teamId: "t5" },
+      { id: "r202", name: "Anna Nguyen", gender: "Female", class: "Varsity", teamId: "t5" },
+      { id: "r203", name: "Brynn Fleming-Harris", gender: "Female", class: "Varsity", teamId: "t5" },
+      { id: "r204", name: "Hannah Ban", gender: "Female", class: "Varsity", teamId: "t5" },
+      { id: "r205", name: "Keegan Deters", gender: "Female", class: "Varsity Alternate", teamId: "t5" },
+      { id: "r206", name: "Chella Houston", gender: "Female", class: "Jr Varsity", teamId: "t5" },
+      { id: "r207", name: "Brighton Wilson", gender: "Female", class: "Jr Varsity", teamId: "t5" },
+      { id: "r208", name: "Addison Kolibaba", gender: "Female", class: "Jr Varsity", teamId: "t5" },
+      { id: "r209", name: "Leah Shaw", gender: "Female", class: "Jr Varsity", teamId: "t5" },
+      { id: "r210", name: "Montana Tarbell", gender: "Female", class: "Jr Varsity", teamId: "t5" },
+      { id: "r211", name: "Ella Nguyen", gender: "Female", class: "Jr Varsity", teamId: "t5" },
+      { id: "r212", name: "Athea Wehrung", gender: "Female", class: "Jr Varsity", teamId: "t5" },
+      { id: "r213", name: "Rory Mason", gender: "Female", class: "Jr Varsity", teamId: "t5" },
+      { id: "r214", name: "Payton Haney", gender: "Female", class: "Jr Varsity", teamId: "t5" },
+      { id: "r215", name: "Josephine Bird", gender: "Female", class: "Jr Varsity", teamId: "t5" },
+      { id: "r216", name: "Wren Schreiner", gender: "Female", class: "Provisional", teamId: "t5" },
+    ],
+  },
+  {
+    id: "t2",
+    name: "Cleveland HS",
+    coachUserIds: ["u4"],
+    racers: [
+      { id: "r3", name: "Riley Kim",  gender: "Female", class: "Provisional", teamId: "t2" },
+      { id: "r4", name: "Morgan Fox", gender: "Female", class: "Varsity",     teamId: "t2" },
+      { id: "r5", name: "Drew Park",  gender: "Male",   class: "Varsity",     teamId: "t2" },
+    ],
+  },
+  { id: "t3", name: "Grant HS", coachUserIds: ["u4"], racers: [] },
+  {
+    id: "t1",
+    name: "Franklin HS",
+    coachUserIds: ["u4"],
+    racers: [
+      { id: "r3", name: "Isa Halle",  gender: "Female", class: "Varsity", teamId: "t1" },
+      { id: "r4", name: "Cleo Craig", gender: "Female", class: "Varsity", teamId: "t1" }
+    ],
+  },
+];
+
+export const seasons: Season[] = [
+  { id: "2025-26", name: "2025–26", startDate: "2025-11-01", endDate: "2026-04-30" },
+];
+
+export const races: Race[] = [
+  { id: "race1", name: "Kelsey Race", location: "Meadows (Stadium)",  date: "2026-01-02", type: "Giant Slalom" },
+  { id: "race2", name: "SL 1",        location: "Anthony Lakes",       date: "2026-01-10", type: "Slalom" },
+  { id: "race3", name: "GS 1",        location: "Ski Bowl (MT Hood Lane)", date: "2026-01-19", type: "Giant Slalom" },
+  { id: "race4", name: "SL 2",        location: "Ski Bowl (Challenger)",   date: "2026-01-30", type: "Slalom" },
+  { id: "race5", name: "GS 2",        location: "Meadows (Middle Fork)",   date: "2026-02-08", type: "Giant Slalom" },
+  { id: "race6", name: "GS 3",        location: "Meadows (Middle Fork)",   date: "2026-02-08", type: "Giant Slalom" },
+  { id: "race7", name: "SL 3",        location: "Cooper Spur",             date: "2026-02-20", type: "Slalom" },
+];
+
+// ======== NORMALIZATION ========
+
+// Build a map of teams from supplied list
+const teamMap = new Map<string, { id: string; name: string; coachUserIds: string[] }>();
+for (const t of teams) {
+  teamMap.set(t.id, { id: t.id, name: t.name, coachUserIds: t.coachUserIds || [] });
+}
+
+// If any racer refers to a team that doesn’t exist, auto-create it
+function ensureTeamExists(teamId: string) {
+  if (teamMap.has(teamId)) return;
+  // Heuristic for t5 given your data:
+  const autoName = teamId === "t5" ? "Sandy High School (Girls)" : `Team ${teamId}`;
+  console.warn(`→ Auto-creating missing team "${teamId}" as "${autoName}"`);
+  teamMap.set(teamId, { id: teamId, name: autoName, coachUserIds: [] });
+}
+
+// Flatten all racers, honoring each racer's own teamId (not the parent)
+const allRacers: Racer[] = [];
+for (const t of teams) {
+  for (const r of t.racers || []) {
+    const tid = r.teamId || t.id;
+    ensureTeamExists(tid);
+    allRacers.push({ ...r, teamId: tid });
+  }
+}
+
+// De-duplicate racer IDs (you reuse r3 & r4 on different teams)
+const seenRacerIds = new Set<string>();
+export const dedupedRacers: Racer[] = allRacers.map((r) => {
+  if (!seenRacerIds.has(r.id)) {
+    seenRacerIds.add(r.id);
+    return r;
+  }
+  const newId = `${r.id}_${r.teamId}`;
+  console.warn(`→ Duplicate racerId "${r.id}" detected; renaming to "${newId}" for team ${r.teamId}`);
+  return { ...r, id: newId };
+});
+
+// Final teams array = teamMap values
+export const finalTeams = Array.from(teamMap.values());
+
+// ======== WRITE ========
+export async function writeSeed(repos: Repos, log: (msg: string) => void = console.log) {
+  log(`\n== Writing Seasons (${seasons.length}) ==`);
+  for (const s of seasons) {
+    await repos.seasons.put({ seasonId: s.id, name: s.name, startDate: s.startDate, endDate: s.endDate });
+    log(`  ✓ ${s.id} — ${s.name} (${s.startDate} to ${s.endDate})`);
+  }
+
+  log(`\n== Writing Users (${users.length}) ==`);
+  for (const u of users) {
+    await repos.users.put({ userId: u.id, name: u.name, role: u.role, teamIds: u.teamIds });
+    log(`  ✓ ${u.id} — ${u.name} (${u.role})`);
+  }
+
+  log(`\n== Writing Teams (${finalTeams.length}) ==`);
+  for (const t of finalTeams) {
+    await repos.teams.put({ teamId: t.id, name: t.name, coachUserIds: t.coachUserIds });
+    log(`  ✓ ${t.id} — ${t.name}`);
+  }
+
+  log(`\n== Writing Racers (${dedupedRacers.length}) ==`);
+  for (const r of dedupedRacers) {
+    await repos.racers.put({ racerId: r.id, teamId: r.teamId, name: r.name, gender: r.gender, class: r.class });
+    log(`  ✓ ${r.id} — ${r.name} (${r.gender}, ${r.class}) [${r.teamId}]`);
+  }
+
+  log(`\n== Writing Races (${races.length}) ==`);
+  for (const rc of races) {
+    const season = seasons.find(s => s.startDate <= rc.date && rc.date <= s.endDate);
+    await repos.races.put({ raceId: rc.id, ...(season ? { seasonId: season.id } : {}), name: rc.name, location: rc.location, date: rc.date, type: rc.type });
+    log(`  ✓ ${rc.id} — ${rc.name} (${rc.type}) on ${rc.date}`);
+  }
+}
@@ -1,7 +1,9 @@
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
-import { DynamoDBDocumentClient, QueryCommand } from "@aws-sdk/lib-dynamodb";
+import { DynamoDBDocumentClient, QueryCommand, ScanCommand } from "@aws-sdk/lib-dynamodb";
 import * as fs from "fs";
 import * as path from "path";
+import { Team } from "../src/repos/types";
+import { normalizeTeamName, teamMatcher } from "../src/teamNames";
 
 type StartListEntry = {
   raceId: string;
@@ -20,6 +22,7 @@ type CliOptions = {
   output?: string;
   region?: string;
   startListsTable?: string;
+  teamsTable?: string;
 };
 
 function parseArgs(argv: string[]): CliOptions {
@@ -52,6 +55,10 @@ function parseArgs(argv: string[]): CliOptions {
       const [v, nextI] = takeVal();
       opts.startListsTable = v;
       i = nextI;
+    } else if (arg.startsWith("--teams-table")) {
+      const [v, nextI] = takeVal();
+      opts.teamsTable = v;
+      i = nextI;
     }
   }
 
@@ -74,16 +81,28 @@ function normalizeRacerName(name: string | undefined): string {
     .trim();
 }
 
-function normalizeTeamName(team: string | undefined): string {
-  return (team || "")
-    .replace(/[^a-z0-9]/gi, "")
-    .toLowerCase();
+function client(opts: CliOptions) {
+  const region = opts.region || process.env.AWS_REGION;
+  return DynamoDBDocumentClient.from(new DynamoDBClient({ region }));
+}
+
+// For their abbreviations and aliases: timing files often name teams "SMA" or "HRV".
+async function fetchTeams(opts: CliOptions): Promise<Team[]> {
+  const tableName = opts.teamsTable || process.env.TEAMS_TABLE || "Teams";
+  const ddb = client(opts);
+  const teams: Team[] = [];
+  let startKey: Record<string, any> | undefined;
+  do {
+    const res = await ddb.send(new ScanCommand({ TableName: tableName, ExclusiveStartKey: startKey }));
+    teams.push(...((res.Items ?? []) as Team[]));
+    startKey = res.LastEvaluatedKey;
+  } while (startKey);
+  return teams;
 }
 
 async function fetchStartList(opts: CliOptions): Promise<StartListEntry[]> {
-  const region = opts.region || process.env.AWS_REGION;
   const tableName = opts.startListsTable || process.env.STARTLISTS_TABLE || "StartLists";
-  const ddb = DynamoDBDocumentClient.from(new DynamoDBClient({ region }));
+  const ddb = client(opts);
   const res = await ddb.send(new QueryCommand({
     TableName: tableName,
     KeyConditionExpression: "raceId = :r",
@@ -105,14 +124,15 @@ async function fetchStartList(opts: CliOptions): Promise<StartListEntry[]> {
   return entries;
 }
 
+// Entries are keyed by teamId as well as team name, so a file team that is a known alias finds them.
 function buildEntryMaps(entries: StartListEntry[]) {
   const byNameTeam = new Map<string, StartListEntry>();
   const byName = new Map<string, StartListEntry[]>();
   for (const e of entries) {
     const normName = normalizeRacerName(e.racerName);
-    const normTeam = normalizeTeamName(e.teamName);
-    const key = `${normName}|${normTeam}`;
-    if (!byNameTeam.has(key)) byNameTeam.set(key, e);
+    for (const key of [`${normName}|${normalizeTeamName(e.teamName)}`, `${normName}|#${e.teamId}`]) {
+      if (!byNameTeam.has(key)) byNameTeam.set(key, e);
+    }
     const arr = byName.get(normName) || [];
     arr.push(e);
     byName.set(normName, arr);
@@ -120,8 +140,9 @@ function buildEntryMaps(entries: StartListEntry[]) {
   return { byNameTeam, byName };
 }
 
-function updateNatfis(xml: string, entries: StartListEntry[]) {
+function updateNatfis(xml: string, entries: StartListEntry[], teams: Team[]) {
   const { byNameTeam, byName } = buildEntryMaps(entries);
+  const matchTeam = teamMatcher(teams);
   const used = new Set<string>();
   const unmatchedComps: { name: string; team: string }[] = [];
   const compRegex = /<Comp>[\s\S]*?<\/Comp>/g;
@@ -134,7 +155,8 @@ function updateNatfis(xml: string, entries: StartListEntry[]) {
     const name = nameMatch?.[1]?.trim() || "";
     const team = teamMatch?.[1]?.trim() || "";
     const normName = normalizeRacerName(name);
-    const normTeam = normalizeTeamName(team);
+    const known = matchTeam(team);
+    const normTeam = known ? `#${known.teamId}` : normalizeTeamName(team);
     const exact = byNameTeam.get(`${normName}|${normTeam}`);
     const fallbackList = byName.get(normName) || [];
     const fallback = fallbackList.length === 1 ? fallbackList[0] : undefined;
@@ -171,7 +193,8 @@ async function main() {
 
   console.log(`Loaded ${entries.length} start list entries. Updating ${inputPath}...`);
   const original = fs.readFileSync(inputPath, "utf8");
-  const { updatedXml, unmatchedComps, unusedEntries } = updateNatfis(original, entries);
+  const teams = await fetchTeams(opts);
+  const { updatedXml, unmatchedComps, unusedEntries } = updateNatfis(original, entries, teams);
   fs.writeFileSync(outputPath, updatedXml, "utf8");
 
   console.log(`Updated file written to ${outputPath}`);
@@ -0,0 +1,119 @@
+import { AuthUser } from "./auth";
+import { repos } from "./repos";
+import { AuditScope, RouteDef } from "./routeTable";
+
+type Snapshot = { raceId?: string; teamId?: string; data: unknown };
+
+// Creating routes have no id in the path yet; the caller fills it in from the response.
+const createdIds: Partial<Record<AuditScope, (body: any) => Record<string, string>>> = {
+  season: body => ({ seasonId: body.seasonId }),
+  ruleSet: body => ({ ruleSetId: body.ruleSetId }),
+  user: body => ({ userId: body.userId }),
+  team: body => ({ teamId: body.teamId }),
+  coOp: body => ({ coOpId: body.coOpId }),
+  race: body => ({ raceId: body.raceId }),
+  // POST /races/bulk; comma-separated.
+  schedule: (body: { raceId: string }[]) => ({ raceIds: body.map(r => r.raceId).join(",") }),
+  raceTemplate: body => ({ templateId: body.templateId }),
+  venue: body => ({ venueId: body.venueId }),
+};
+
+async function snapshot(scope: AuditScope, params: Record<string, string>): Promise<Snapshot> {
+  const { raceId, teamId } = params;
+  switch (scope) {
+    case "season":
+      return { data: params.seasonId ? await repos().seasons.get(params.seasonId) : null };
+    case "ruleSet":
+      return { data: params.ruleSetId ? await repos().ruleSets.get(params.ruleSetId) : null };
+    case "user":
+      return { data: params.userId ? await repos().users.get(params.userId) : null };
+    case "team":
+      return { teamId, data: teamId ? await repos().teams.get(teamId) : null };
+    case "coOp":
+      return { data: params.coOpId ? await repos().coOps.get(params.coOpId) : null };
+    case "teamRacers":
+      return { teamId, data: await repos().racers.listByTeam(teamId) };
+    case "race":
+      return { raceId, data: raceId ? await repos().races.get(raceId) : null };
+    case "schedule": {
+      const raceIds = params.raceIds ? params.raceIds.split(",") : [];
+      return { data: await Promise.all(raceIds.map(id => repos().races.get(id))) };
+    }
+    case "raceTemplate":
+      return { data: params.templateId ? await repos().raceTemplates.get(params.templateId) : null };
+    case "venue":
+      return { data: params.venueId ? await repos().venues.get(params.venueId) : null };
+    case "roster":
+      return { raceId, teamId, data: await repos().rosters.list(raceId, teamId) };
+    case "startList":
+      return { raceId, data: await repos().startLists.get(raceId) };
+    case "results":
+      return { raceId, data: await repos().results.get(raceId) };
+  }
+}
+
+// Runs a mutating route and records who changed what. Failed requests change nothing and are not recorded.
+export async function withAudit<T extends { statusCode?: number; body?: string }>(
+  route: RouteDef,
+  params: Record<string, string>,
+  user: AuthUser | null,
+  run: () => Promise<T>,
+): Promise<T> {
+  if (!route.audit) return run();
+
+  const before = await snapshot(route.audit, params);
+  const result = await run();
+  if ((result.statusCode ?? 200) >= 400) return result;
+
+  try {
+    const afterParams = { ...params };
+    const createdId = createdIds[route.audit];
+    if (createdId && result.body) {
+      for (const [key, value] of Object.entries(createdId(JSON.parse(result.body)))) {
+        if (value && !afterParams[key]) afterParams[key] = value;
+      }
+    }
+    const after = await snapshot(route.audit, afterParams);
+    const { nanoid } = await import("nanoid");
+    await repos().audit.record({
+      auditId: nanoid(12),
+      at: new Date().toISOString(),
+      actor: user ? { userId: user.userId, name: user.name, role: user.role } : null,
+      method: route.method,
+      route: route.path,
+      operationId: route.operationId,
+      params: afterParams,
+      raceId: after.raceId,
+      teamId: after.teamId,
+      before: before.data,
+      after: after.data,
+    });
+  } catch (err) {
+    // The change itself went through; don't turn it into an error response.
+    console.error("Failed to record audit entry", err);
+  }
+  return result;
+}
+
+// For changes made outside a request, such as the scheduled jobs in src/jobs; the actor is null.
+export async function recordSystemChange(
+  operationId: string,
+  params: Record<string, string>,
+  before: unknown,
+  after: unknown,
+): Promise<void> {
+  const { nanoid } = await import("nanoid");
+  await repos().audit.record({
+    auditId: nanoid(12),
+    at: new Date().toISOString(),
+    actor: null,
+    method: "SCHEDULED",
+    route: `jobs/${operationId}`,
+    operationId,
+    params,
+    raceId: params.raceId,
+    teamId: params.teamId,
+    before,
+    after,
+  });
+}
@@ -0,0 +1,111 @@
+import { GetSecretValueCommand, SecretsManagerClient } from "@aws-sdk/client-secrets-manager";
+import { APIGatewayProxyEventV2 } from "aws-lambda";
+import { createHmac, createVerify, timingSafeEqual } from "crypto";
+import { ForbiddenError, UnauthorizedError } from "./errors";
+import { repos } from "./repos";
+import { Role } from "./repos/types";
+
+export type AuthUser = {
+  userId: string;
+  name?: string;
+  role: Role;
+  teamIds: string[];
+};
+
+// "public": anyone, "user": any signed-in user, "admin": ADMIN only, "teamCoach": ADMIN or a COACH
+// of the {teamId} in the path
+export type Access = "public" | "user" | "admin" | "teamCoach";
+
+type JwtClaims = {
+  sub?: string;
+  exp?: number;
+  nbf?: number;
+  iss?: string;
+};
+
+function decodeSegment(segment: string) {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+}
+
+let secretFromStore: Promise<string | undefined> | undefined;
+
+// The HS256 secret: JWT_SECRET locally; in Lambda the Secrets Manager secret named by
+// JWT_SECRET_NAME, fetched once per cold start (a failed fetch is retried on the next request).
+function hmacSecret(): Promise<string | undefined> {
+  if (process.env.JWT_SECRET) return Promise.resolve(process.env.JWT_SECRET);
+  const secretName = process.env.JWT_SECRET_NAME;
+  if (!secretName) return Promise.resolve(undefined);
+  secretFromStore ??= new SecretsManagerClient({})
+    .send(new GetSecretValueCommand({ SecretId: secretName }))
+    .then(res => res.SecretString)
+    .catch(err => {
+      secretFromStore = undefined;
+      throw err;
+    });
+  return secretFromStore;
+}
+
+async function verifySignature(alg: string, signingInput: string, signature: Buffer): Promise<boolean> {
+  // Asymmetric keys take precedence so no secret has to be stored at all.
+  const publicKey = process.env.JWT_PUBLIC_KEY;
+  if (publicKey) {
+    if (alg !== "RS256") return false;
+    return createVerify("RSA-SHA256").update(signingInput).verify(publicKey, signature);
+  }
+  if (alg !== "HS256") return false;
+  const secret = await hmacSecret();
+  if (!secret) return false;
+  const expected = createHmac("sha256", secret).update(signingInput).digest();
+  return expected.length === signature.length && timingSafeEqual(expected, signature);
+}
+
+export async function verifyJwt(token: string): Promise<JwtClaims | null> {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  const [headerSeg, payloadSeg, signatureSeg] = parts;
+  let header: { alg?: string };
+  let claims: JwtClaims;
+  try {
+    header = decodeSegment(headerSeg);
+    claims = decodeSegment(payloadSeg);
+  } catch {
+    return null;
+  }
+  if (!(await verifySignature(String(header.alg), `${headerSeg}.${payloadSeg}`, Buffer.from(signatureSeg, "base64url")))) {
+    return null;
+  }
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp === "number" && claims.exp <= now) return null;
+  if (typeof claims.nbf === "number" && claims.nbf > now) return null;
+  const issuer = process.env.JWT_ISSUER;
+  if (issuer && claims.iss !== issuer) return null;
+  return claims;
+}
+
+// The token only says who is calling; role and teams come from their account in the Users table,
+// so assignment changes apply at once and a deleted user's tokens stop working.
+export async function getAuthUser(e: APIGatewayProxyEventV2): Promise<AuthUser | null> {
+  const header = e.headers?.["authorization"] ?? e.headers?.["Authorization"];
+  const m = header?.match(/^Bearer\s+(.+)$/i);
+  if (!m) return null;
+  const claims = await verifyJwt(m[1].trim());
+  if (!claims?.sub) return null;
+  const account = await repos().users.get(claims.sub);
+  if (!account) return null;
+  return { userId: account.userId, name: account.name, role: account.role, teamIds: account.teamIds };
+}
+
+export function canManageTeam(user: AuthUser, teamId: string | undefined): boolean {
+  if (user.role === "ADMIN") return true;
+  return !!teamId && user.teamIds.includes(teamId);
+}
+
+export function authorize(access: Access, user: AuthUser | null, teamId: string | undefined): void {
+  if (access === "public") return;
+  if (!user) throw new UnauthorizedError();
+  if (access === "user") return;
+  if (access === "admin" && user.role !== "ADMIN") throw new ForbiddenError("Admin role required");
+  if (access === "teamCoach" && !canManageTeam(user, teamId)) {
+    throw new ForbiddenError("You can only manage your own teams");
+  }
+}
@@ -0,0 +1,25 @@
+import { CoOp, repos } from "./repos";
+
+// Member team -> the co-op it races in during the season.
+export async function coOpsByTeam(seasonId: string | undefined): Promise<Map<string, CoOp>> {
+  const byTeam = new Map<string, CoOp>();
+  if (!seasonId) return byTeam;
+  for (const coOp of await repos().coOps.listBySeason(seasonId)) {
+    for (const teamId of coOp.teamIds) byTeam.set(teamId, coOp);
+  }
+  return byTeam;
+}
+
+// The teams whose rosters for the race count together with `teamId`'s: its co-op, or just itself.
+export async function rosterUnit(raceId: string, teamId: string): Promise<string[]> {
+  const race = await repos().races.get(raceId);
+  const coOp = (await coOpsByTeam(race?.seasonId)).get(teamId);
+  return coOp ? coOp.teamIds : [teamId];
+}
+
+// Sets coOpId/coOpName from the home team, dropping any the entry had from before.
+export function withCoOp<T extends { teamId?: string; coOpId?: string; coOpName?: string }>(entry: T, byTeam: Map<string, CoOp>): T {
+  const { coOpId, coOpName, ...home } = entry;
+  const coOp = entry.teamId ? byTeam.get(entry.teamId) : undefined;
+  return { ...home, ...(coOp ? { coOpId: coOp.coOpId, coOpName: coOp.name } : {}) } as T;
+}
@@ -0,0 +1,31 @@
+import { ValidationError } from "./errors";
+import { repos } from "./repos";
+
+// 400 unless every team exists; `field` names the body field for the error.
+export async function requireTeams(teamIds: string[], field = "teamIds") {
+  const found = new Set((await repos().teams.getMany(teamIds)).map(t => t.teamId));
+  const missing = teamIds.filter(id => !found.has(id));
+  if (missing.length) {
+    throw new ValidationError("Request body is invalid", {
+      fields: [{ field, message: `${field} has unknown teams: ${missing.join(", ")}` }],
+    });
+  }
+}
+
+// Mirrors a coach's assignments into Team.coachUserIds, which the team responses read.
+export async function syncCoachTeams(userId: string, before: string[], after: string[]) {
+  const added = after.filter(id => !before.includes(id));
+  const removed = before.filter(id => !after.includes(id));
+  for (const team of await repos().teams.getMany([...added, ...removed])) {
+    const coachUserIds = (team.coachUserIds ?? []).filter(id => id !== userId);
+    if (added.includes(team.teamId)) coachUserIds.push(userId);
+    await repos().teams.update(team.teamId, { coachUserIds });
+  }
+}
+
+// The other direction, for a team that is going away.
+export async function unassignTeam(teamId: string, coachUserIds: string[]) {
+  for (const user of await repos().users.getMany(coachUserIds)) {
+    await repos().users.update(user.userId, { teamIds: user.teamIds.filter(id => id !== teamId) });
+  }
+}
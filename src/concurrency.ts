@@ -0,0 +1,89 @@
+import { PreconditionFailedError, PreconditionRequiredError } from "./errors";
+import { repos } from "./repos";
+import { RouteDef, VersionScope } from "./routeTable";
+
+export function etag(version: number) {
+  return `"${version}"`;
+}
+
+// Accepts "3", W/"3" or a comma-separated list of them.
+function parseIfMatch(header: string): number[] {
+  return header
+    .split(",")
+    .map(tag => tag.trim().replace(/^W\//, "").replace(/^"|"$/g, ""))
+    .filter(tag => /^\d+$/.test(tag))
+    .map(Number);
+}
+
+// null when the race itself is missing; the router then answers 404 as usual.
+async function currentVersion(scope: VersionScope, params: Record<string, string>): Promise<number | null> {
+  switch (scope) {
+    case "race": {
+      const race = await repos().races.get(params.raceId);
+      return race ? race.version ?? 0 : null;
+    }
+    case "roster":
+      return repos().rosters.getVersion(params.raceId, params.teamId);
+    case "startList":
+      return repos().startLists.getVersion(params.raceId);
+  }
+}
+
+function claim(scope: VersionScope, params: Record<string, string>, expected: number, next = expected + 1): Promise<boolean> {
+  switch (scope) {
+    case "race":
+      return repos().races.claimVersion(params.raceId, expected, next);
+    case "roster":
+      return repos().rosters.claimVersion(params.raceId, params.teamId, expected, next);
+    case "startList":
+      return repos().startLists.claimVersion(params.raceId, expected, next);
+  }
+}
+
+// The version a read returns as its ETag.
+export async function readVersion(route: RouteDef, params: Record<string, string>): Promise<number | undefined> {
+  if (!route.version) return undefined;
+  return (await currentVersion(route.version, params)) ?? undefined;
+}
+
+// Checks If-Match and takes the next version before the router runs, so of two writers holding the
+// same ETag only one gets through; the other gets 412 instead of interleaving its writes.
+export async function claimVersion(
+  route: RouteDef,
+  params: Record<string, string>,
+  ifMatch: string | undefined,
+): Promise<number | undefined> {
+  if (!route.version) return undefined;
+  const current = await currentVersion(route.version, params);
+  if (current === null) return undefined;
+
+  if (!ifMatch) {
+    throw new PreconditionRequiredError("If-Match header is required", { etag: etag(current) });
+  }
+  if (!parseIfMatch(ifMatch).includes(current) || !(await claim(route.version, params, current))) {
+    const latest = (await currentVersion(route.version, params)) ?? current;
+    throw new PreconditionFailedError("This was changed by someone else; reload and try again", { etag: etag(latest) });
+  }
+  return current + 1;
+}
+
+// Hands a claimed version back when the write it was taken for fails, so the caller's ETag stays
+// good for a retry. A no-op if someone has claimed past it since.
+export async function withClaimedVersion<T extends { statusCode?: number }>(
+  route: RouteDef,
+  params: Record<string, string>,
+  claimed: number | undefined,
+  run: () => Promise<T>,
+): Promise<T> {
+  if (!route.version || claimed === undefined) return run();
+  const release = () => claim(route.version!, params, claimed, claimed - 1);
+  let result: T;
+  try {
+    result = await run();
+  } catch (err) {
+    await release();
+    throw err;
+  }
+  if ((result.statusCode ?? 200) >= 400) await release();
+  return result;
+}
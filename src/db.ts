@@ -0,0 +1,5 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+
+// One document client for the DynamoDB repositories (src/repos/dynamo.ts).
+export const ddb = DynamoDBDocumentClient.from(new DynamoDBClient({}));
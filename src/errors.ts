@@ -0,0 +1,78 @@
+import { APIGatewayProxyStructuredResultV2 } from "aws-lambda";
+
+export type ErrorBody = {
+  error: { code: string; message: string; details?: unknown };
+};
+
+export class HttpError extends Error {
+  constructor(
+    readonly statusCode: number,
+    readonly code: string,
+    message: string,
+    readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class ValidationError extends HttpError {
+  constructor(message: string, details?: unknown) { super(400, "VALIDATION_ERROR", message, details); }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message = "Authentication required") { super(401, "UNAUTHORIZED", message); }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message = "Forbidden") { super(403, "FORBIDDEN", message); }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message = "Not found", details?: unknown) { super(404, "NOT_FOUND", message, details); }
+}
+
+export class MethodNotAllowedError extends HttpError {
+  constructor(readonly allowed: string[] = []) {
+    super(405, "METHOD_NOT_ALLOWED", "Method not allowed", allowed.length ? { allowed } : undefined);
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message: string, details?: unknown) { super(409, "CONFLICT", message, details); }
+}
+
+export class PreconditionFailedError extends HttpError {
+  constructor(message: string, details?: unknown) { super(412, "PRECONDITION_FAILED", message, details); }
+}
+
+export class PreconditionRequiredError extends HttpError {
+  constructor(message: string, details?: unknown) { super(428, "PRECONDITION_REQUIRED", message, details); }
+}
+
+export class LockedError extends HttpError {
+  constructor(message: string, details?: unknown) { super(423, "LOCKED", message, details); }
+}
+
+export function errorBody(code: string, message: string, details?: unknown): string {
+  const body: ErrorBody = { error: { code, message, ...(details !== undefined ? { details } : {}) } };
+  return JSON.stringify(body);
+}
+
+// Maps anything thrown by a router onto a status code and the shared error body.
+export function toErrorResult(err: unknown): APIGatewayProxyStructuredResultV2 {
+  if (err instanceof MethodNotAllowedError && err.allowed.length) {
+    return { statusCode: err.statusCode, headers: { allow: err.allowed.join(",") }, body: errorBody(err.code, err.message, err.details) };
+  }
+  if (err instanceof HttpError) {
+    return { statusCode: err.statusCode, body: errorBody(err.code, err.message, err.details) };
+  }
+  if (err instanceof SyntaxError) {
+    return { statusCode: 400, body: errorBody("VALIDATION_ERROR", "Request body must be valid JSON") };
+  }
+  if ((err as any)?.name === "ConditionalCheckFailedException") {
+    return { statusCode: 409, body: errorBody("CONFLICT", "Item already exists or was changed concurrently") };
+  }
+  const message = (err as any)?.message || "Server error";
+  return { statusCode: 500, body: errorBody("INTERNAL", message) };
+}
@@ -0,0 +1,71 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyStructuredResultV2 } from "aws-lambda";
+import { createHash } from "crypto";
+import { AuthUser } from "./auth";
+import { ConflictError, ValidationError } from "./errors";
+import { repos, StoredResponse } from "./repos";
+import { RouteDef } from "./routeTable";
+
+const TTL_SECONDS = 24 * 3600;
+
+function fingerprint(e: APIGatewayProxyEventV2) {
+  return createHash("sha256")
+    .update(`${e.requestContext.http.method} ${e.rawPath}\n${e.body ?? ""}`)
+    .digest("hex");
+}
+
+function stringHeaders(headers: APIGatewayProxyStructuredResultV2["headers"]): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers ?? {}).map(([k, v]) => [k, String(v)]));
+}
+
+// Runs an idempotent route at most once per Idempotency-Key and user. Repeats of a request that
+// succeeded get the stored response back, so a retried generate doesn't reshuffle bibs; failed
+// requests free the key so the retry runs for real.
+export async function withIdempotency<T extends APIGatewayProxyStructuredResultV2>(
+  route: RouteDef,
+  e: APIGatewayProxyEventV2,
+  user: AuthUser | null,
+  run: () => Promise<T>,
+): Promise<T | StoredResponse> {
+  const header = e.headers?.["idempotency-key"];
+  if (!route.idempotent || header === undefined) return run();
+  if (!header.trim() || header.length > 255) {
+    throw new ValidationError("Idempotency-Key must be 1-255 characters");
+  }
+
+  const key = `${user?.userId ?? "anonymous"}#${header}`;
+  const record = {
+    key,
+    fingerprint: fingerprint(e),
+    createdAt: new Date().toISOString(),
+    expiresAt: Math.floor(Date.now() / 1000) + TTL_SECONDS,
+  };
+
+  if (!(await repos().idempotency.begin(record))) {
+    const existing = await repos().idempotency.get(key);
+    if (existing && existing.fingerprint !== record.fingerprint) {
+      throw new ConflictError("Idempotency-Key was already used for a different request", { idempotencyKey: header });
+    }
+    if (!existing?.response) {
+      throw new ConflictError("A request with this Idempotency-Key is still in progress", { idempotencyKey: header });
+    }
+    return { ...existing.response, headers: { ...existing.response.headers, "idempotent-replayed": "true" } };
+  }
+
+  let result: T;
+  try {
+    result = await run();
+  } catch (err) {
+    await repos().idempotency.release(key);
+    throw err;
+  }
+  if ((result.statusCode ?? 200) >= 400) {
+    await repos().idempotency.release(key);
+  } else {
+    await repos().idempotency.complete(key, {
+      statusCode: result.statusCode ?? 200,
+      headers: stringHeaders(result.headers),
+      body: result.body ?? "",
+    });
+  }
+  return result;
+}
@@ -1,99 +1,92 @@
 import { APIGatewayProxyEventV2, APIGatewayProxyResultV2, APIGatewayProxyStructuredResultV2 } from "aws-lambda";
+import { seasonsRouter } from "./routes/seasons";
+import { ruleSetsRouter } from "./routes/ruleSets";
+import { usersRouter } from "./routes/users";
 import { teamsRouter } from "./routes/teams";
+import { coOpsRouter } from "./routes/coOps";
+import { teamSeasonRouter } from "./routes/teamSeason";
 import { racersRouter } from "./routes/racers";
 import { rosterRouter } from "./routes/roster";
 import { racesRouter } from "./routes/races"
+import { raceTemplatesRouter } from "./routes/raceTemplates";
+import { venuesRouter } from "./routes/venues";
 import { startlistRouter } from "./routes/startlist";
 import { resultsRouter } from "./routes/results";
+import { auditRouter } from "./routes/audit";
+import { calendarRouter } from "./routes/calendar";
+import { openapiRouter } from "./routes/openapi";
+import { withAudit } from "./audit";
+import { authorize, getAuthUser } from "./auth";
+import { claimVersion, etag, readVersion, withClaimedVersion } from "./concurrency";
+import { HttpError, MethodNotAllowedError, NotFoundError, toErrorResult, ValidationError } from "./errors";
+import { withIdempotency } from "./idempotency";
+import { matchRoute, RouterName } from "./routeTable";
+import { validate } from "./validation";
 
 type Route = (e: APIGatewayProxyEventV2) => Promise<APIGatewayProxyResultV2>;
 
-const notFound: Route = async () => ({ statusCode: 404, body: "Not found" });
 const corsHeaders = {
   "content-type": "application/json",
   "access-control-allow-origin": "*",
-  "access-control-allow-headers": "content-type,authorization",
+  "access-control-allow-headers": "content-type,authorization,if-match,idempotency-key",
   "access-control-allow-methods": "GET,POST,PATCH,DELETE,OPTIONS",
+  "access-control-expose-headers": "etag,idempotent-replayed",
 };
 
-const routes: Record<string, Route> = {
-  "GET /teams": teamsRouter,
-  "GET /teams/{teamId}": teamsRouter,
-  "PATCH /teams/{teamId}": teamsRouter,
-  "POST /teams/{teamId}/racers": racersRouter,
-  "PATCH /teams/{teamId}/racers/{racerId}": racersRouter,
-  "DELETE /teams/{teamId}/racers/{racerId}": racersRouter,
-
-  "GET /races": racesRouter,
-  "POST /races": racesRouter,
-  "GET /races/{raceId}": racesRouter,
-  "DELETE /races/{raceId}": racesRouter,
-  "PATCH /races/{raceId}": racesRouter,
-  "POST /races/roster-counts": rosterRouter,
-
-  "GET /races/{raceId}/roster/{teamId}": rosterRouter,
-  "POST /races/{raceId}/roster/{teamId}/add": rosterRouter,
-  "PATCH /races/{raceId}/roster/{teamId}/entry/{racerId}": rosterRouter,
-  "POST /races/{raceId}/roster/{teamId}/move": rosterRouter,
-  "DELETE /races/{raceId}/roster/{teamId}/entry/{racerId}": rosterRouter,
-  "POST /races/{raceId}/roster/{teamId}/copy": rosterRouter,
-  "POST /races/{raceId}/start-list/generate": startlistRouter,
-  "POST /races/{raceId}/start-list/copy": startlistRouter,
-  "POST /races/{raceId}/start-list/entry": startlistRouter,
-  "GET /races/{raceId}/start-list": startlistRouter,
-  "GET /races/{raceId}/start-list/excluded": startlistRouter,
-  "POST /races/{raceId}/start-list/excluded": startlistRouter,
-  "PATCH /races/{raceId}/start-list/bib": startlistRouter,
-
-  "GET /races/{raceId}/results": resultsRouter,
-  "POST /races/{raceId}/results": resultsRouter,
-  "POST /races/{raceId}/results/recalc": resultsRouter,
+const routers: Record<RouterName, Route> = {
+  seasons: seasonsRouter,
+  ruleSets: ruleSetsRouter,
+  users: usersRouter,
+  teams: teamsRouter,
+  coOps: coOpsRouter,
+  teamSeason: teamSeasonRouter,
+  racers: racersRouter,
+  races: racesRouter,
+  venues: venuesRouter,
+  raceTemplates: raceTemplatesRouter,
+  roster: rosterRouter,
+  startlist: startlistRouter,
+  results: resultsRouter,
+  audit: auditRouter,
+  calendar: calendarRouter,
+  openapi: openapiRouter,
 };
 
-function keyOf(e: APIGatewayProxyEventV2) {
-  const p = e.rawPath.replace(/\/+$/, "");
-  const m = e.requestContext.http.method.toUpperCase();
-  // normalize dynamic parts into templates (quick & dirty)
-  const norm = p
-    .replace(/\/[^/]+\/racers\/[^/]+$/, "/{teamId}/racers/{racerId}")
-    .replace(/\/[^/]+\/racers$/, "/{teamId}/racers")
-    .replace(/\/races\/[^/]+\/roster\/[^/]+\/entry\/[^/]+$/, "/races/{raceId}/roster/{teamId}/entry/{racerId}")
-    .replace(/\/races\/[^/]+\/roster\/[^/]+\/move$/, "/races/{raceId}/roster/{teamId}/move")
-    .replace(/\/races\/[^/]+\/roster\/[^/]+\/add$/, "/races/{raceId}/roster/{teamId}/add")
-    .replace(/\/races\/[^/]+\/roster\/[^/]+\/copy$/, "/races/{raceId}/roster/{teamId}/copy")
-    .replace(/\/races\/roster-counts$/, "/races/roster-counts")
-    .replace(/\/races\/[^/]+\/start-list\/generate$/, "/races/{raceId}/start-list/generate")
-    .replace(/\/races\/[^/]+\/start-list\/copy$/, "/races/{raceId}/start-list/copy")
-    .replace(/\/races\/[^/]+\/start-list\/entry$/, "/races/{raceId}/start-list/entry")
-    .replace(/\/races\/[^/]+\/start-list\/excluded$/, "/races/{raceId}/start-list/excluded")
-    .replace(/\/races\/[^/]+\/start-list\/bib$/, "/races/{raceId}/start-list/bib")
-    .replace(/\/races\/[^/]+\/start-list$/, "/races/{raceId}/start-list")
-    .replace(/\/races\/[^/]+\/results$/, "/races/{raceId}/results")
-    .replace(/\/races\/[^/]+\/results\/recalc$/, "/races/{raceId}/results/recalc")
-    .replace(/\/races\/[^/]+\/roster\/[^/]+$/, "/races/{raceId}/roster/{teamId}")
-    .replace(/\/races\/[^/]+\/start-list\/generate$/, "/races/{raceId}/start-list/generate")
-    .replace(/\/races\/[^/]+\/start-list$/, "/races/{raceId}/start-list")
-    .replace(/\/races\/(?!roster-counts$)[^/]+$/, "/races/{raceId}")
-    .replace(/\/teams\/[^/]+$/, "/teams/{teamId}");
-  return `${m} ${norm || "/"}`;
-}
-
-
-
 export const handler = async (e: APIGatewayProxyEventV2) => {
   try {
     if (e.requestContext.http.method.toUpperCase() === "OPTIONS") {
       return { statusCode: 200, headers: corsHeaders, body: "" };
     }
-    const k = keyOf(e);
-    const fn = routes[k] || notFound;
-    const proxyResult = await fn(e) as APIGatewayProxyStructuredResultV2;
-    return {
-      statusCode: 200,
-      headers: corsHeaders,
-      body: proxyResult.body
-    };
-  } catch (err: any) {
-    return { statusCode: 500, headers: corsHeaders, body: JSON.stringify({ error: err.message || "Server error" }) };
+    const match = matchRoute(e.requestContext.http.method, e.rawPath);
+    if (match.kind === "notFound") throw new NotFoundError("Route not found");
+    if (match.kind === "methodNotAllowed") throw new MethodNotAllowedError(match.allowed);
+
+    e.pathParameters = { ...e.pathParameters, ...match.params };
+    const user = await getAuthUser(e);
+    authorize(match.route.access, user, e.pathParameters["teamId"]);
+    if (match.route.body) {
+      const fields = validate(match.route.body, e.body ? JSON.parse(e.body) : {});
+      if (fields.length) throw new ValidationError("Request body is invalid", { fields });
+    }
+    // A replayed request skips the version check: its If-Match went stale when the first one ran.
+    return await withIdempotency(match.route, e, user, async () => {
+      const reads = match.route.method === "GET";
+      const version = reads
+        ? await readVersion(match.route, match.params)
+        : await claimVersion(match.route, match.params, e.headers?.["if-match"]);
+      const router = routers[match.route.router];
+      const run = () => withAudit(match.route, match.params, user, () => router(e) as Promise<APIGatewayProxyStructuredResultV2>);
+      const proxyResult = reads ? await run() : await withClaimedVersion(match.route, match.params, version, run);
+      const succeeded = (proxyResult.statusCode ?? 200) < 400;
+      return {
+        statusCode: proxyResult.statusCode ?? 200,
+        headers: { ...corsHeaders, ...(version !== undefined && succeeded ? { etag: etag(version) } : {}), ...proxyResult.headers },
+        body: proxyResult.body
+      };
+    });
+  } catch (err: unknown) {
+    if (!(err instanceof HttpError)) console.error(err);
+    const result = toErrorResult(err);
+    return { ...result, headers: { ...corsHeaders, ...result.headers } };
   }
 };
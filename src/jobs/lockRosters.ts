@@ -0,0 +1,47 @@
+import { recordSystemChange } from "../audit";
+import { raceStatus, rosterDeadlinePassed, transition } from "../raceStatus";
+import { Race, repos } from "../repos";
+import { generateStartList } from "../routes/startlist";
+
+type Outcome = { locked: string[]; generated: string[]; failed: string[] };
+
+// Bumping the version like any other race write keeps clients' ETags honest. false when someone
+// changed the race since we read it; the next run picks it up again.
+async function lockRace(race: Race): Promise<boolean> {
+  if (!(await repos().races.claimVersion(race.raceId, race.version ?? 0))) return false;
+  const after = await repos().races.update(race.raceId, transition(race, "rosters_locked"));
+  await recordSystemChange("lockRosters", { raceId: race.raceId }, race, after);
+  return true;
+}
+
+async function generate(raceId: string): Promise<boolean> {
+  const version = await repos().startLists.getVersion(raceId);
+  if (!(await repos().startLists.claimVersion(raceId, version))) return false;
+  const before = await repos().startLists.get(raceId);
+  await generateStartList(raceId);
+  await recordSystemChange("generateStartList", { raceId }, before, await repos().startLists.get(raceId));
+  return true;
+}
+
+// Run on a schedule (see lib/SkiApiStack.ts): locks the rosters of every open race whose
+// rosterDeadline has passed, then generates the start list where the race asks for it.
+export const handler = async (): Promise<Outcome> => {
+  const now = new Date().toISOString();
+  const due = (await repos().races.list()).filter(r => !r.archivedAt && !r.postponedTo && raceStatus(r) === "rosters_open" && rosterDeadlinePassed(r, now));
+  const outcome: Outcome = { locked: [], generated: [], failed: [] };
+
+  for (const race of due) {
+    try {
+      if (!(await lockRace(race))) continue;
+      outcome.locked.push(race.raceId);
+      if (race.autoGenerateStartList && (await generate(race.raceId))) outcome.generated.push(race.raceId);
+    } catch (err) {
+      // One bad race shouldn't keep the others unlocked.
+      console.error(`Failed to lock rosters for ${race.raceId}`, err);
+      outcome.failed.push(race.raceId);
+    }
+  }
+
+  if (due.length) console.log(JSON.stringify(outcome));
+  return outcome;
+};
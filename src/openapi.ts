@@ -0,0 +1,390 @@
+import { GENDERS, RACE_STATUSES, RACE_TYPES, RACER_CLASSES, ROLES } from "./repos/types";
+import { ResponseRef, RouteDef, ROUTES } from "./routeTable";
+import * as bodies from "./schemas";
+import { Schema } from "./validation";
+
+// OpenAPI 3.0 document for GET /openapi.json, built from the route table. Response components
+// mirror the types in src/repos/types.ts and the shapes the routers serialize; keep them in step.
+
+export type OpenApiSchema = {
+  $ref?: string;
+  type?: "string" | "integer" | "number" | "boolean" | "array" | "object";
+  enum?: readonly string[];
+  format?: string;
+  nullable?: boolean;
+  items?: OpenApiSchema;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  additionalProperties?: OpenApiSchema;
+  allOf?: OpenApiSchema[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  minProperties?: number;
+  description?: string;
+};
+
+const ref = (name: string): OpenApiSchema => ({ $ref: `#/components/schemas/${name}` });
+const str: OpenApiSchema = { type: "string" };
+const int: OpenApiSchema = { type: "integer" };
+const num: OpenApiSchema = { type: "number" };
+const bool: OpenApiSchema = { type: "boolean" };
+const arrayOf = (items: OpenApiSchema): OpenApiSchema => ({ type: "array", items });
+const nullable = (s: OpenApiSchema): OpenApiSchema => ({ ...s, nullable: true });
+
+// Every property is required unless listed in `optional`.
+function object(properties: Record<string, OpenApiSchema>, optional: string[] = []): OpenApiSchema {
+  return { type: "object", properties, required: Object.keys(properties).filter(k => !optional.includes(k)) };
+}
+
+const gender: OpenApiSchema = { type: "string", enum: GENDERS };
+const racerClass: OpenApiSchema = { type: "string", enum: RACER_CLASSES };
+const resultGender: OpenApiSchema = { type: "string", enum: [...GENDERS, "Unknown"] };
+const resultClass: OpenApiSchema = { type: "string", enum: [...RACER_CLASSES.filter(c => c !== "DNS"), "Unknown"] };
+const contribution = object({ bib: int, racerName: str, timeSec: num });
+const legacy = (s: OpenApiSchema): OpenApiSchema => ({ ...s, description: "Deprecated: use the per-run arrays" });
+
+const responseComponents: Record<string, OpenApiSchema> = {
+  ErrorBody: object({ error: object({ code: str, message: str, details: {} }, ["details"]) }),
+  Ok: object({ ok: bool }),
+  Season: object({
+    seasonId: str,
+    name: str,
+    startDate: { type: "string", format: "date" },
+    endDate: { type: "string", format: "date" },
+    ruleSetId: str,
+  }, ["ruleSetId"]),
+  RuleSet: object({
+    ruleSetId: str,
+    name: str,
+    classes: { ...arrayOf(racerClass), description: "Racing classes in start and results order" },
+    caps: {
+      type: "object",
+      description: "gender -> class -> most roster entries; missing classes are uncapped",
+      additionalProperties: { type: "object", additionalProperties: int },
+    },
+    lockedClasses: { ...arrayOf(racerClass), description: "Racers of these classes can't race in another (DNS aside)" },
+  }),
+  Team: object({
+    teamId: str,
+    name: str,
+    abbreviation: str,
+    colors: { ...arrayOf(str), description: "CSS colors, primary first" },
+    aliases: { ...arrayOf(str), description: "Other names timing files use for the team" },
+    coachUserIds: arrayOf(str),
+    nonLeague: bool,
+  }, ["abbreviation", "colors", "aliases", "coachUserIds", "nonLeague"]),
+  Racer: object({
+    racerId: str,
+    teamId: str,
+    name: str,
+    firstName: str,
+    lastName: str,
+    gender,
+    class: racerClass,
+    birthYear: int,
+    gradYear: { ...int, description: "High-school graduation year" },
+    license: { ...str, description: "U.S. Ski & Snowboard member number or FIS code" },
+  }, ["firstName", "lastName", "birthYear", "gradYear", "license"]),
+  CoOp: object({ coOpId: str, seasonId: str, name: str, teamIds: { ...arrayOf(str), description: "Member teams" } }),
+  TeamSeason: object({
+    team: object({ teamId: str, name: str }),
+    season: ref("Season"),
+    coOp: nullable(ref("CoOp")),
+    races: arrayOf(object({
+      raceId: str,
+      name: str,
+      date: { type: "string", format: "date" },
+      location: str,
+      status: { type: "string", enum: RACE_STATUSES },
+      rosterCounts: { type: "object", description: "gender -> class -> roster entries", additionalProperties: { type: "object", additionalProperties: int } },
+      rosterSize: int,
+      racers: arrayOf(object({ racerId: str, racerName: str, gender, class: racerClass, bib: nullable(int), points: nullable(int) })),
+      teamScores: { ...arrayOf(object({ gender: resultGender, teamId: str, teamName: str, totalTimeSec: nullable(num), points: int })), description: "The team's, or its co-op's, score per gender" },
+      teamPoints: int,
+    })),
+    totals: object({
+      races: { ...int, description: "Races the team had racers in" },
+      starts: int,
+      individualPoints: int,
+      teamPoints: int,
+      teamPointsByGender: { type: "object", additionalProperties: int },
+      racers: arrayOf(object({ racerId: str, racerName: str, races: int, points: int })),
+    }),
+  }),
+  TeamWithRacers: {
+    allOf: [
+      ref("Team"),
+      object({ racers: arrayOf(ref("Racer")), coaches: arrayOf(object({ userId: str, name: str, email: { ...str, description: "Admins and the team's coaches only" } }, ["email"])) }),
+    ],
+  },
+  User: object({
+    userId: str,
+    name: str,
+    email: str,
+    role: { type: "string", enum: ROLES },
+    teamIds: { ...arrayOf(str), description: "Teams a coach is assigned to; mirrored in Team.coachUserIds" },
+  }, ["email"]),
+  Race: object({
+    raceId: str,
+    seasonId: str,
+    name: str,
+    location: str,
+    venueId: str,
+    courseId: str,
+    date: { type: "string", format: "date" },
+    type: { type: "string", enum: RACE_TYPES },
+    runs: { type: "integer", description: "Timed runs; defaults by type (Super-G 1, others 2)" },
+    status: { type: "string", enum: RACE_STATUSES },
+    statusChangedAt: {
+      type: "object",
+      description: "status -> when the race last entered it",
+      additionalProperties: { type: "string", format: "date-time" },
+    },
+    rosterDeadline: { type: "string", format: "date-time" },
+    autoGenerateStartList: bool,
+    locked: { type: "boolean", description: "Derived: true unless status is rosters_open and the roster deadline hasn't passed" },
+    independent: bool,
+    archivedAt: { type: "string", format: "date-time" },
+    postponedTo: { type: "string", description: "raceId of the make-up race that replaced this one" },
+    makeUpFor: { type: "string", description: "raceId of the postponed race this one replaces" },
+    originalDate: { type: "string", format: "date", description: "The date a moved race was first scheduled for" },
+    version: { type: "integer", description: "What the ETag carries; absent until the race's first write" },
+  }, ["seasonId", "venueId", "courseId", "statusChangedAt", "rosterDeadline", "autoGenerateStartList", "archivedAt", "postponedTo", "makeUpFor", "originalDate", "version"]),
+  Course: object({
+    courseId: str,
+    name: str,
+    verticalDropM: num,
+    lengthM: num,
+    homologation: { type: "string", description: "FIS or national homologation number" },
+  }, ["verticalDropM", "lengthM", "homologation"]),
+  Venue: object({ venueId: str, name: str, address: str, courses: arrayOf(ref("Course")) }, ["address"]),
+  VenueRace: {
+    allOf: [
+      ref("Race"),
+      object({
+        course: nullable(ref("Course")),
+        bestTimeSec: { type: "object", description: "gender -> fastest total time over all runs", additionalProperties: num },
+      }),
+    ],
+  },
+  RaceTemplate: object({
+    templateId: str,
+    name: str,
+    location: str,
+    venueId: str,
+    courseId: str,
+    type: { type: "string", enum: RACE_TYPES },
+    runs: int,
+    independent: bool,
+    autoGenerateStartList: bool,
+  }, ["venueId", "courseId", "runs", "independent", "autoGenerateStartList"]),
+  RosterEntry: object({ raceId: str, teamId: str, racerId: str, gender, class: racerClass, startOrder: nullable(int) }),
+  RosterCounts: object({
+    counts: { type: "object", description: "raceId -> teamId -> entries", additionalProperties: { type: "object", additionalProperties: int } },
+  }),
+  StartListEntry: object({
+    raceId: str,
+    racerId: str,
+    racerName: str,
+    teamId: { ...str, description: "The racer's home team" },
+    teamName: str,
+    coOpId: str,
+    coOpName: str,
+    gender,
+    class: racerClass,
+    bib: int,
+  }, ["coOpId", "coOpName"]),
+  StartListMeta: object({ teamsOrder: arrayOf(str) }),
+  StartList: object({ entries: arrayOf(ref("StartListEntry")), meta: ref("StartListMeta") }, ["meta"]),
+  BibList: arrayOf(int),
+  ResultEntry: object({
+    raceId: str,
+    bib: int,
+    racerId: str,
+    racerName: str,
+    teamId: str,
+    teamName: str,
+    coOpId: str,
+    coOpName: str,
+    gender: resultGender,
+    class: resultClass,
+    runs: arrayOf(object({ status: int, timeSec: num, points: int }, ["timeSec"])),
+    run1Status: legacy(int),
+    run2Status: legacy(int),
+    run1TimeSec: legacy(num),
+    run2TimeSec: legacy(num),
+    run1Points: legacy(int),
+    run2Points: legacy(int),
+    totalPoints: int,
+  }, ["racerId", "teamId", "coOpId", "coOpName", "run1TimeSec", "run2TimeSec"]),
+  ResultGroup: object({ gender: resultGender, class: resultClass, entries: arrayOf(ref("ResultEntry")) }),
+  TeamScore: object({
+    gender: resultGender,
+    teamId: { ...str, description: "The coOpId for a co-op" },
+    teamName: str,
+    memberTeamIds: arrayOf(str),
+    runTotalsSec: { ...arrayOf(nullable(num)), description: "Per run: best three varsity times, null with fewer than three finishers" },
+    totalTimeSec: nullable(num),
+    runContribs: arrayOf(arrayOf(contribution)),
+    run1TotalSec: legacy(nullable(num)),
+    run2TotalSec: legacy(nullable(num)),
+    run1Contribs: legacy(arrayOf(contribution)),
+    run2Contribs: legacy(arrayOf(contribution)),
+    points: int,
+  }, ["memberTeamIds"]),
+  AuditEntry: object({
+    auditId: str,
+    at: { type: "string", format: "date-time" },
+    actor: nullable(object({ userId: str, name: str, role: str }, ["name"])),
+    method: str,
+    route: str,
+    operationId: str,
+    params: { type: "object", additionalProperties: str },
+    raceId: str,
+    teamId: str,
+    before: { description: "Affected data before the change (null when created)" },
+    after: { description: "Affected data after the change (null when deleted)" },
+  }, ["raceId", "teamId"]),
+  RaceResults: object({
+    entries: arrayOf(ref("ResultEntry")),
+    issues: arrayOf(str),
+    groups: arrayOf(ref("ResultGroup")),
+    teamScores: arrayOf(ref("TeamScore")),
+    venue: { ...nullable(object({ venueId: str, name: str, address: str }, ["address"])), description: "GET only" },
+    course: { ...nullable(ref("Course")), description: "GET only" },
+  }, ["venue", "course"]),
+};
+
+// createRacerBody -> CreateRacerBody
+const bodyNames = new Map<Schema, string>(
+  Object.entries(bodies).map(([name, schema]) => [schema, name[0].toUpperCase() + name.slice(1)]),
+);
+
+function responseSchema(response: ResponseRef): OpenApiSchema {
+  return Array.isArray(response) ? arrayOf(ref(response[0])) : ref(response);
+}
+
+function component(schema: OpenApiSchema): OpenApiSchema {
+  return schema.$ref ? responseComponents[schema.$ref.split("/").pop()!] : schema;
+}
+
+// Array indexes are dropped from the paths so one problem is reported once per list.
+function checkValue(schema: OpenApiSchema, value: unknown, at: string, problems: Set<string>) {
+  if (value === null) {
+    if (!schema.nullable) problems.add(`${at} is null`);
+    return;
+  }
+  if (schema.$ref) return checkValue(component(schema), value, at, problems);
+  if (schema.allOf) {
+    // Each part only knows its own properties.
+    for (const part of schema.allOf) checkValue({ ...component(part), additionalProperties: {} }, value, at, problems);
+    return;
+  }
+  const fail = (type: string) => problems.add(`${at} should be ${type}, got ${JSON.stringify(value)?.slice(0, 40)}`);
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") fail("a string");
+      return;
+    case "integer":
+      if (!Number.isInteger(value)) fail("an integer");
+      return;
+    case "number":
+      if (typeof value !== "number") fail("a number");
+      return;
+    case "boolean":
+      if (typeof value !== "boolean") fail("a boolean");
+      return;
+    case "array":
+      if (!Array.isArray(value)) return fail("an array");
+      for (const item of value) checkValue(schema.items!, item, `${at}[]`, problems);
+      return;
+    case "object": {
+      if (typeof value !== "object" || Array.isArray(value)) return fail("an object");
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) problems.add(`${at}.${key} is missing`);
+      }
+      for (const [key, item] of Object.entries(record)) {
+        if (item === undefined) continue;
+        const property = schema.properties?.[key];
+        if (property) checkValue(property, item, `${at}.${key}`, problems);
+        else if (schema.additionalProperties) checkValue(schema.additionalProperties, item, `${at}.${key}`, problems);
+        else if (schema.properties) problems.add(`${at}.${key} is not documented`);
+      }
+    }
+  }
+}
+
+// Where a 200 body differs from what the document promises for the route. The components above are
+// written by hand, so scripts/dev.ts runs every response through this and logs what has drifted.
+export function responseDrift(route: RouteDef, body: unknown): string[] {
+  if (!route.response) return [];
+  const problems = new Set<string>();
+  const name = Array.isArray(route.response) ? route.response[0] : route.response;
+  checkValue(responseSchema(route.response), body, name, problems);
+  return Array.from(problems);
+}
+
+const errorResponse = (description: string) => ({ description, content: { "application/json": { schema: ref("ErrorBody") } } });
+
+export function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of ROUTES) {
+    const pathParams = Array.from(route.path.matchAll(/\{(\w+)\}/g), m => m[1]);
+    const checksVersion = route.version && route.method !== "GET";
+    const parameters = [
+      ...pathParams.map(name => ({ name, in: "path", required: true, schema: str })),
+      ...Object.entries(route.query ?? {}).map(([name, schema]) => ({ name, in: "query", required: false, schema })),
+      ...(checksVersion ? [{ name: "If-Match", in: "header", required: true, schema: str, description: "ETag from the last read" }] : []),
+      ...(route.idempotent
+        ? [{ name: "Idempotency-Key", in: "header", required: false, schema: { ...str, maxLength: 255 }, description: "Repeats with the same key replay the first response" }]
+        : []),
+    ];
+    const responses: Record<string, unknown> = {
+      200: {
+        description: "OK",
+        ...(route.response ? { content: { "application/json": { schema: responseSchema(route.response) } } } : {}),
+        ...(route.contentType ? { content: { [route.contentType]: { schema: str } } } : {}),
+        ...(route.version ? { headers: { ETag: { schema: str, description: `Current ${route.version} version` } } } : {}),
+      },
+      default: errorResponse("Error"),
+    };
+    if (route.body) responses[400] = errorResponse("Invalid request body");
+    if (checksVersion) {
+      responses[412] = errorResponse("If-Match does not match the current version");
+      responses[428] = errorResponse("If-Match header missing");
+    }
+    if (route.access !== "public") {
+      responses[401] = errorResponse("Missing or invalid bearer token");
+      responses[403] = errorResponse("Not allowed for this user");
+    }
+
+    (paths[route.path] ??= {})[route.method.toLowerCase()] = {
+      operationId: route.operationId,
+      tags: [route.router],
+      ...(route.access !== "public" ? { security: [{ bearerAuth: [] }], "x-access": route.access } : {}),
+      ...(parameters.length ? { parameters } : {}),
+      ...(route.body
+        ? { requestBody: { required: true, content: { "application/json": { schema: ref(bodyNames.get(route.body)!) } } } }
+        : {}),
+      responses,
+    };
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: { title: "Race manager API", version: "1.0.0" },
+    paths,
+    components: {
+      securitySchemes: { bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" } },
+      schemas: {
+        ...responseComponents,
+        ...Object.fromEntries(Array.from(bodyNames, ([schema, name]) => [name, schema])),
+      },
+    },
+  };
+}
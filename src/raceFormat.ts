@@ -0,0 +1,21 @@
+import { Race, RACE_TYPES, RaceType, RunInfo } from "./repos/types";
+
+export const MAX_RUNS = 4;
+
+// Super-G is a single run; dual and parallel slalom time one run on each course.
+const DEFAULT_RUNS: Record<RaceType, number> = {
+  "Slalom": 2,
+  "Giant Slalom": 2,
+  "Super-G": 1,
+  "Dual Slalom": 2,
+  "Parallel Slalom": 2,
+};
+
+export function raceRuns(race: Pick<Race, "type" | "runs">): number {
+  if (race.runs) return race.runs;
+  return (RACE_TYPES as readonly string[]).includes(race.type) ? DEFAULT_RUNS[race.type as RaceType] : 2;
+}
+
+export function finished(run: RunInfo | undefined): run is RunInfo & { timeSec: number } {
+  return run?.status === 1 && typeof run.timeSec === "number";
+}
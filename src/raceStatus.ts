@@ -0,0 +1,74 @@
+import { LockedError, NotFoundError, ValidationError } from "./errors";
+import { Race, RaceStatus, repos } from "./repos";
+
+// Forward one stage, or back one stage to correct a mistake.
+const TRANSITIONS: Record<RaceStatus, RaceStatus[]> = {
+  draft: ["rosters_open"],
+  rosters_open: ["rosters_locked", "draft"],
+  rosters_locked: ["start_list_published", "rosters_open"],
+  start_list_published: ["results_provisional", "rosters_locked"],
+  results_provisional: ["results_official", "start_list_published"],
+  results_official: ["results_provisional"],
+};
+
+// Races from before statuses only had `locked`, and were open for rosters otherwise.
+export function raceStatus(race: Pick<Race, "status" | "locked">): RaceStatus {
+  return race.status ?? (race.locked ? "rosters_locked" : "rosters_open");
+}
+
+// The patch that moves a race to `to`, stamping when it got there.
+export function transition(race: Race, to: RaceStatus): Pick<Race, "status" | "statusChangedAt"> {
+  const from = raceStatus(race);
+  if (from === to) return { status: to, statusChangedAt: race.statusChangedAt };
+  if (!TRANSITIONS[from].includes(to)) {
+    throw new ValidationError(`Cannot move a race from ${from} to ${to}`, { status: from, allowed: TRANSITIONS[from] });
+  }
+  return { status: to, statusChangedAt: { ...race.statusChangedAt, [to]: new Date().toISOString() } };
+}
+
+export function rosterDeadlinePassed(race: Pick<Race, "rosterDeadline">, now = new Date().toISOString()) {
+  return Boolean(race.rosterDeadline && race.rosterDeadline <= now);
+}
+
+// Archived races are read-only until restored.
+export function requireNotArchived(race: Race) {
+  if (race.archivedAt) {
+    throw new LockedError("This race is archived; restore it before changing it", { archivedAt: race.archivedAt });
+  }
+}
+
+// A postponed race hands everything over to its make-up race.
+export function requireNotPostponed(race: Race) {
+  if (race.postponedTo) {
+    throw new LockedError(`This race was postponed; make changes to ${race.postponedTo} instead`, { postponedTo: race.postponedTo });
+  }
+}
+
+// Loads the race and throws 423 unless coaches can still edit its rosters. A passed deadline counts
+// as locked even before the scheduled job has flipped the status.
+export async function requireOpenRosters(raceId: string): Promise<Race> {
+  const race = await repos().races.get(raceId);
+  if (!race) throw new NotFoundError("Race not found");
+  requireNotArchived(race);
+  requireNotPostponed(race);
+  const status = raceStatus(race);
+  const deadline = race.rosterDeadline;
+  if (status === "rosters_open" && !rosterDeadlinePassed(race)) return race;
+  const message = status === "rosters_open" || status === "rosters_locked"
+    ? deadline ? `Rosters for this race closed at the ${deadline} deadline` : "Rosters for this race are locked"
+    : `Editing rosters is not allowed while the race is ${status}`;
+  throw new LockedError(message, { status, ...(deadline ? { rosterDeadline: deadline } : {}) });
+}
+
+// Loads the race and throws 423 unless it is in one of `allowed`.
+export async function requireRaceStatus(raceId: string, allowed: RaceStatus[], action: string): Promise<Race> {
+  const race = await repos().races.get(raceId);
+  if (!race) throw new NotFoundError("Race not found");
+  requireNotArchived(race);
+  requireNotPostponed(race);
+  const status = raceStatus(race);
+  if (!allowed.includes(status)) {
+    throw new LockedError(`${action} is not allowed while the race is ${status}`, { status, allowed });
+  }
+  return race;
+}
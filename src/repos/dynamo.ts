@@ -0,0 +1,962 @@
+import {
+  BatchGetCommand,
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  QueryCommandInput,
+  ScanCommand,
+  ScanCommandInput,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { ConflictError } from "../errors";
+import { upgradeTeamScore } from "./legacyResults";
+import {
+  AuditEntry,
+  AuditRepo,
+  CoOp,
+  CoOpRepo,
+  IdempotencyRecord,
+  IdempotencyRepo,
+  Racer,
+  RacerRepo,
+  Race,
+  RaceRepo,
+  Repos,
+  ResultEntry,
+  ResultsRepo,
+  ResultsSummary,
+  RosterEntry,
+  RosterKey,
+  RosterRepo,
+  RunInfo,
+  RaceTemplate,
+  RaceTemplateRepo,
+  RuleSet,
+  RuleSetRepo,
+  Season,
+  SeasonRepo,
+  StartListEntry,
+  StartListRepo,
+  StartListSettings,
+  Team,
+  TeamRepo,
+  User,
+  UserRepo,
+  Venue,
+  VenueRepo,
+} from "./types";
+
+export type TableNames = {
+  seasons: string;
+  ruleSets: string;
+  users: string;
+  teams: string;
+  coOps: string;
+  racers: string;
+  races: string;
+  venues: string;
+  raceTemplates: string;
+  rosters: string;
+  startLists: string;
+  results: string;
+  audit: string;
+  idempotency: string;
+};
+
+export function tablesFromEnv(): TableNames {
+  return {
+    seasons: process.env.SEASONS_TABLE!,
+    ruleSets: process.env.RULE_SETS_TABLE!,
+    users: process.env.USERS_TABLE!,
+    teams: process.env.TEAMS_TABLE!,
+    coOps: process.env.CO_OPS_TABLE!,
+    racers: process.env.RACERS_TABLE!,
+    races: process.env.RACES_TABLE!,
+    venues: process.env.VENUES_TABLE!,
+    raceTemplates: process.env.RACE_TEMPLATES_TABLE!,
+    rosters: process.env.ROSTERS_TABLE!,
+    startLists: process.env.STARTLISTS_TABLE!,
+    results: process.env.RESULTS_TABLE!,
+    audit: process.env.AUDIT_TABLE!,
+    idempotency: process.env.IDEMPOTENCY_TABLE!,
+  };
+}
+
+type Item = Record<string, any>;
+
+async function queryAll(ddb: DynamoDBDocumentClient, input: QueryCommandInput): Promise<Item[]> {
+  const items: Item[] = [];
+  let lastKey: Item | undefined = undefined;
+  do {
+    const res = await ddb.send(new QueryCommand({ ...input, ExclusiveStartKey: lastKey }));
+    items.push(...(res.Items ?? []));
+    lastKey = res.LastEvaluatedKey as Item | undefined;
+  } while (lastKey);
+  return items;
+}
+
+async function scanAll(ddb: DynamoDBDocumentClient, input: ScanCommandInput): Promise<Item[]> {
+  const items: Item[] = [];
+  let lastKey: Item | undefined = undefined;
+  do {
+    const res = await ddb.send(new ScanCommand({ ...input, ExclusiveStartKey: lastKey }));
+    items.push(...(res.Items ?? []));
+    lastKey = res.LastEvaluatedKey as Item | undefined;
+  } while (lastKey);
+  return items;
+}
+
+// BatchGet in chunks of 100. Throttled reads come back as UnprocessedKeys; they are retried with
+// exponential backoff until none are left, as the DynamoDB docs ask.
+async function batchGetAll(ddb: DynamoDBDocumentClient, table: string, keys: Item[]): Promise<Item[]> {
+  const items: Item[] = [];
+  const chunkSize = 100;
+  for (let i = 0; i < keys.length; i += chunkSize) {
+    let pending: Item[] = keys.slice(i, i + chunkSize);
+    for (let attempt = 0; pending.length; attempt++) {
+      if (attempt) await new Promise(resolve => setTimeout(resolve, Math.min(50 * 2 ** attempt, 2000)));
+      const res = await ddb.send(new BatchGetCommand({ RequestItems: { [table]: { Keys: pending } } }));
+      items.push(...((res.Responses?.[table] ?? []) as Item[]));
+      pending = (res.UnprocessedKeys?.[table]?.Keys ?? []) as Item[];
+    }
+  }
+  return items;
+}
+
+// Builds "SET #a = :a, ..." from the defined keys of a patch object.
+// undefined leaves a field alone; null removes it (only race patches allow that).
+function setExpression(patch: Item) {
+  const names: Record<string, string> = {};
+  const values: Record<string, any> = {};
+  const sets: string[] = [];
+  const removes: string[] = [];
+  Object.entries(patch).forEach(([key, value], i) => {
+    if (value === undefined) return;
+    names[`#f${i}`] = key;
+    if (value === null) {
+      removes.push(`#f${i}`);
+      return;
+    }
+    values[`:v${i}`] = value;
+    sets.push(`#f${i} = :v${i}`);
+  });
+  return { sets, removes, names, values };
+}
+
+function isConditionFailure(err: any) {
+  return err?.name === "ConditionalCheckFailedException";
+}
+
+// SET version = next, only if it is still `expected` (a missing attribute counts as 0).
+async function claimVersion(
+  ddb: DynamoDBDocumentClient,
+  table: string,
+  key: Item,
+  expected: number,
+  next = expected + 1,
+  mustExist?: string,
+): Promise<boolean> {
+  const matches = expected === 0 ? "(attribute_not_exists(#v) OR #v = :expected)" : "#v = :expected";
+  try {
+    await ddb.send(new UpdateCommand({
+      TableName: table,
+      Key: key,
+      UpdateExpression: "SET #v = :next",
+      ConditionExpression: mustExist ? `attribute_exists(${mustExist}) AND ${matches}` : matches,
+      ExpressionAttributeNames: { "#v": "version" },
+      ExpressionAttributeValues: { ":expected": expected, ":next": next },
+    }));
+    return true;
+  } catch (err) {
+    if (isConditionFailure(err)) return false;
+    throw err;
+  }
+}
+
+function rosterPk(raceId: string, teamId: string) {
+  return `ROSTER#${raceId}#${teamId}`;
+}
+
+// The roster's version lives in its own row so clearing a roster keeps it.
+const ROSTER_META_SK = "META";
+
+// items have sk "<gender>#<class>#<raceId>#<racerId>"
+function rosterSk(key: RosterKey) {
+  return `${key.gender}#${key.class}#${key.raceId}#${key.racerId}`;
+}
+
+function toRacer(i: Item): Racer {
+  return {
+    racerId: i.racerId,
+    teamId: i.teamId,
+    name: i.name,
+    ...(i.firstName ? { firstName: i.firstName } : {}),
+    ...(i.lastName ? { lastName: i.lastName } : {}),
+    gender: i.gender,
+    class: i.class,
+    ...(i.birthYear !== undefined ? { birthYear: Number(i.birthYear) } : {}),
+    ...(i.gradYear !== undefined ? { gradYear: Number(i.gradYear) } : {}),
+    ...(i.license ? { license: i.license } : {}),
+  };
+}
+
+function toStartListEntry(raceId: string, i: Item): StartListEntry {
+  return {
+    raceId,
+    racerId: i.racerId,
+    racerName: i.racerName,
+    teamId: i.teamId,
+    teamName: i.teamName,
+    ...(i.coOpId ? { coOpId: i.coOpId, coOpName: i.coOpName } : {}),
+    gender: i.gender,
+    class: i.class,
+    bib: Number(i.bib),
+  };
+}
+
+function toRunInfo(status: unknown, timeSec: unknown): RunInfo {
+  return { status: Number(status ?? 0), timeSec: typeof timeSec === "number" ? timeSec : undefined };
+}
+
+function toResultEntry(raceId: string, i: Item): ResultEntry {
+  // Rows from before N runs stored run1Status, run1TimeSec, run1Points, ... flat.
+  const legacy = !Array.isArray(i.runs);
+  return {
+    raceId,
+    bib: Number(i.bib),
+    racerId: i.racerId as string | undefined,
+    racerName: String(i.racerName ?? ""),
+    teamId: i.teamId as string | undefined,
+    teamName: String(i.teamName ?? ""),
+    ...(i.coOpId ? { coOpId: String(i.coOpId), coOpName: String(i.coOpName ?? "") } : {}),
+    gender: i.gender ?? "Unknown",
+    class: i.class ?? "Unknown",
+    runs: legacy
+      ? [toRunInfo(i.run1Status, i.run1TimeSec), toRunInfo(i.run2Status, i.run2TimeSec)]
+      : (i.runs as Item[]).map(r => toRunInfo(r.status, r.timeSec)),
+    runPoints: legacy
+      ? [Number(i.run1Points ?? 0), Number(i.run2Points ?? 0)]
+      : ((i.runPoints ?? []) as unknown[]).map(Number),
+    totalPoints: Number(i.totalPoints ?? 0),
+  };
+}
+
+function fromResultEntry(e: ResultEntry): Item {
+  // Unfinished runs have no timeSec, which the document client refuses to marshal.
+  return JSON.parse(JSON.stringify({
+    raceId: e.raceId,
+    bib: e.bib,
+    racerId: e.racerId,
+    racerName: e.racerName,
+    teamId: e.teamId,
+    teamName: e.teamName,
+    coOpId: e.coOpId,
+    coOpName: e.coOpName,
+    gender: e.gender,
+    class: e.class,
+    runs: e.runs,
+    runPoints: e.runPoints,
+    totalPoints: e.totalPoints,
+  }));
+}
+
+function seasonRepo(ddb: DynamoDBDocumentClient, table: string): SeasonRepo {
+  const get = async (seasonId: string) => {
+    const res = await ddb.send(new GetCommand({ TableName: table, Key: { seasonId } }));
+    return (res.Item as Season | undefined) ?? null;
+  };
+  return {
+    list: async () => (await scanAll(ddb, { TableName: table })) as Season[],
+    get,
+    async create(season) {
+      try {
+        await ddb.send(new PutCommand({
+          TableName: table,
+          Item: season,
+          ConditionExpression: "attribute_not_exists(seasonId)",
+        }));
+      } catch (err) {
+        if (isConditionFailure(err)) throw new ConflictError(`Season ${season.seasonId} already exists`);
+        throw err;
+      }
+    },
+    async put(season) {
+      await ddb.send(new PutCommand({ TableName: table, Item: season }));
+    },
+    async update(seasonId, patch) {
+      const { sets, names, values } = setExpression(patch);
+      if (!sets.length) return get(seasonId);
+      try {
+        const res = await ddb.send(new UpdateCommand({
+          TableName: table,
+          Key: { seasonId },
+          UpdateExpression: `SET ${sets.join(", ")}`,
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: values,
+          ConditionExpression: "attribute_exists(seasonId)",
+          ReturnValues: "ALL_NEW",
+        }));
+        return (res.Attributes as Season | undefined) ?? null;
+      } catch (err) {
+        if (isConditionFailure(err)) return null;
+        throw err;
+      }
+    },
+    async delete(seasonId) {
+      await ddb.send(new DeleteCommand({ TableName: table, Key: { seasonId } }));
+    },
+  };
+}
+
+function ruleSetRepo(ddb: DynamoDBDocumentClient, table: string): RuleSetRepo {
+  const get = async (ruleSetId: string) => {
+    const res = await ddb.send(new GetCommand({ TableName: table, Key: { ruleSetId } }));
+    return (res.Item as RuleSet | undefined) ?? null;
+  };
+  return {
+    list: async () => (await scanAll(ddb, { TableName: table })) as RuleSet[],
+    get,
+    async create(ruleSet) {
+      try {
+        await ddb.send(new PutCommand({
+          TableName: table,
+          Item: ruleSet,
+          ConditionExpression: "attribute_not_exists(ruleSetId)",
+        }));
+      } catch (err) {
+        if (isConditionFailure(err)) throw new ConflictError(`Rule set ${ruleSet.ruleSetId} already exists`);
+        throw err;
+      }
+    },
+    async put(ruleSet) {
+      await ddb.send(new PutCommand({ TableName: table, Item: ruleSet }));
+    },
+    async update(ruleSetId, patch) {
+      const { sets, names, values } = setExpression(patch);
+      if (!sets.length) return get(ruleSetId);
+      try {
+        const res = await ddb.send(new UpdateCommand({
+          TableName: table,
+          Key: { ruleSetId },
+          UpdateExpression: `SET ${sets.join(", ")}`,
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: values,
+          ConditionExpression: "attribute_exists(ruleSetId)",
+          ReturnValues: "ALL_NEW",
+        }));
+        return (res.Attributes as RuleSet | undefined) ?? null;
+      } catch (err) {
+        if (isConditionFailure(err)) return null;
+        throw err;
+      }
+    },
+    async delete(ruleSetId) {
+      await ddb.send(new DeleteCommand({ TableName: table, Key: { ruleSetId } }));
+    },
+  };
+}
+
+function userRepo(ddb: DynamoDBDocumentClient, table: string): UserRepo {
+  const get = async (userId: string) => {
+    const res = await ddb.send(new GetCommand({ TableName: table, Key: { userId } }));
+    return (res.Item as User | undefined) ?? null;
+  };
+  return {
+    list: async () => (await scanAll(ddb, { TableName: table })) as User[],
+    get,
+    async getMany(userIds) {
+      const unique = Array.from(new Set(userIds.filter(Boolean)));
+      return (await batchGetAll(ddb, table, unique.map(userId => ({ userId })))) as User[];
+    },
+    async create(user) {
+      try {
+        await ddb.send(new PutCommand({
+          TableName: table,
+          Item: user,
+          ConditionExpression: "attribute_not_exists(userId)",
+        }));
+      } catch (err) {
+        if (isConditionFailure(err)) throw new ConflictError(`User ${user.userId} already exists`);
+        throw err;
+      }
+    },
+    async put(user) {
+      await ddb.send(new PutCommand({ TableName: table, Item: user }));
+    },
+    async update(userId, patch) {
+      const { sets, names, values } = setExpression(patch);
+      if (!sets.length) return get(userId);
+      try {
+        const res = await ddb.send(new UpdateCommand({
+          TableName: table,
+          Key: { userId },
+          UpdateExpression: `SET ${sets.join(", ")}`,
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: values,
+          ConditionExpression: "attribute_exists(userId)",
+          ReturnValues: "ALL_NEW",
+        }));
+        return (res.Attributes as User | undefined) ?? null;
+      } catch (err) {
+        if (isConditionFailure(err)) return null;
+        throw err;
+      }
+    },
+    async delete(userId) {
+      await ddb.send(new DeleteCommand({ TableName: table, Key: { userId } }));
+    },
+  };
+}
+
+function teamRepo(ddb: DynamoDBDocumentClient, table: string): TeamRepo {
+  const get = async (teamId: string) => {
+    const res = await ddb.send(new GetCommand({ TableName: table, Key: { teamId } }));
+    return (res.Item as Team | undefined) ?? null;
+  };
+  return {
+    list: async () => (await scanAll(ddb, { TableName: table })) as Team[],
+    get,
+    async getMany(teamIds) {
+      const unique = Array.from(new Set(teamIds.filter(Boolean)));
+      return (await batchGetAll(ddb, table, unique.map(teamId => ({ teamId })))) as Team[];
+    },
+    async create(team) {
+      try {
+        await ddb.send(new PutCommand({
+          TableName: table,
+          Item: team,
+          ConditionExpression: "attribute_not_exists(teamId)",
+        }));
+      } catch (err) {
+        if (isConditionFailure(err)) throw new ConflictError(`Team ${team.teamId} already exists`);
+        throw err;
+      }
+    },
+    async put(team) {
+      await ddb.send(new PutCommand({ TableName: table, Item: team }));
+    },
+    async update(teamId, patch) {
+      const { sets, names, values } = setExpression(patch);
+      if (!sets.length) return get(teamId);
+      try {
+        const res = await ddb.send(new UpdateCommand({
+          TableName: table,
+          Key: { teamId },
+          UpdateExpression: `SET ${sets.join(", ")}`,
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: values,
+          ConditionExpression: "attribute_exists(teamId)",
+          ReturnValues: "ALL_NEW",
+        }));
+        return (res.Attributes as Team | undefined) ?? null;
+      } catch (err) {
+        if (isConditionFailure(err)) return null;
+        throw err;
+      }
+    },
+    async delete(teamId) {
+      await ddb.send(new DeleteCommand({ TableName: table, Key: { teamId } }));
+    },
+  };
+}
+
+function coOpRepo(ddb: DynamoDBDocumentClient, table: string): CoOpRepo {
+  const get = async (coOpId: string) => {
+    const res = await ddb.send(new GetCommand({ TableName: table, Key: { coOpId } }));
+    return (res.Item as CoOp | undefined) ?? null;
+  };
+  return {
+    list: async () => (await scanAll(ddb, { TableName: table })) as CoOp[],
+    listBySeason: async seasonId => (await queryAll(ddb, {
+      TableName: table,
+      IndexName: "bySeason",
+      KeyConditionExpression: "seasonId = :s",
+      ExpressionAttributeValues: { ":s": seasonId },
+    })) as CoOp[],
+    get,
+    async create(coOp) {
+      try {
+        await ddb.send(new PutCommand({
+          TableName: table,
+          Item: coOp,
+          ConditionExpression: "attribute_not_exists(coOpId)",
+        }));
+      } catch (err) {
+        if (isConditionFailure(err)) throw new ConflictError(`Co-op ${coOp.coOpId} already exists`);
+        throw err;
+      }
+    },
+    async update(coOpId, patch) {
+      const { sets, names, values } = setExpression(patch);
+      if (!sets.length) return get(coOpId);
+      try {
+        const res = await ddb.send(new UpdateCommand({
+          TableName: table,
+          Key: { coOpId },
+          UpdateExpression: `SET ${sets.join(", ")}`,
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: values,
+          ConditionExpression: "attribute_exists(coOpId)",
+          ReturnValues: "ALL_NEW",
+        }));
+        return (res.Attributes as CoOp | undefined) ?? null;
+      } catch (err) {
+        if (isConditionFailure(err)) return null;
+        throw err;
+      }
+    },
+    async delete(coOpId) {
+      await ddb.send(new DeleteCommand({ TableName: table, Key: { coOpId } }));
+    },
+  };
+}
+
+function racerRepo(ddb: DynamoDBDocumentClient, table: string): RacerRepo {
+  const get = async (racerId: string) => {
+    const res = await ddb.send(new GetCommand({ TableName: table, Key: { racerId } }));
+    return res.Item ? toRacer(res.Item) : null;
+  };
+  return {
+    get,
+    async listByTeam(teamId) {
+      const items = await queryAll(ddb, {
+        TableName: table,
+        IndexName: "byTeam",
+        KeyConditionExpression: "teamId = :t",
+        ExpressionAttributeValues: { ":t": teamId },
+      });
+      return items.map(toRacer);
+    },
+    async put(racer) {
+      await ddb.send(new PutCommand({ TableName: table, Item: racer }));
+    },
+    async update(racerId, patch) {
+      const { sets, names, values } = setExpression(patch);
+      if (!sets.length) return get(racerId);
+      try {
+        const res = await ddb.send(new UpdateCommand({
+          TableName: table,
+          Key: { racerId },
+          UpdateExpression: `SET ${sets.join(", ")}`,
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: values,
+          ConditionExpression: "attribute_exists(racerId)",
+          ReturnValues: "ALL_NEW",
+        }));
+        return res.Attributes ? toRacer(res.Attributes) : null;
+      } catch (err) {
+        if (isConditionFailure(err)) return null;
+        throw err;
+      }
+    },
+    async delete(racerId) {
+      await ddb.send(new DeleteCommand({ TableName: table, Key: { racerId } }));
+    },
+  };
+}
+
+function raceRepo(ddb: DynamoDBDocumentClient, table: string): RaceRepo {
+  const get = async (raceId: string) => {
+    const res = await ddb.send(new GetCommand({ TableName: table, Key: { raceId } }));
+    return (res.Item as Race | undefined) ?? null;
+  };
+  return {
+    list: async () => (await scanAll(ddb, { TableName: table })) as Race[],
+    listBySeason: async seasonId => (await queryAll(ddb, {
+      TableName: table,
+      IndexName: "bySeason",
+      KeyConditionExpression: "seasonId = :s",
+      ExpressionAttributeValues: { ":s": seasonId },
+    })) as Race[],
+    listByVenue: async venueId => (await queryAll(ddb, {
+      TableName: table,
+      IndexName: "byVenue",
+      KeyConditionExpression: "venueId = :v",
+      ExpressionAttributeValues: { ":v": venueId },
+    })) as Race[],
+    get,
+    async create(race) {
+      try {
+        await ddb.send(new PutCommand({
+          TableName: table,
+          Item: race,
+          ConditionExpression: "attribute_not_exists(raceId)",
+        }));
+      } catch (err) {
+        if (isConditionFailure(err)) throw new ConflictError(`Race ${race.raceId} already exists`);
+        throw err;
+      }
+    },
+    async put(race) {
+      await ddb.send(new PutCommand({ TableName: table, Item: race }));
+    },
+    async update(raceId, patch) {
+      const { sets, removes, names, values } = setExpression(patch);
+      if (!sets.length && !removes.length) return get(raceId);
+      try {
+        const res = await ddb.send(new UpdateCommand({
+          TableName: table,
+          Key: { raceId },
+          UpdateExpression: [
+            sets.length ? `SET ${sets.join(", ")}` : "",
+            removes.length ? `REMOVE ${removes.join(", ")}` : "",
+          ].join(" ").trim(),
+          ExpressionAttributeNames: names,
+          ...(sets.length ? { ExpressionAttributeValues: values } : {}),
+          ConditionExpression: "attribute_exists(raceId)",
+          ReturnValues: "ALL_NEW",
+        }));
+        return (res.Attributes as Race | undefined) ?? null;
+      } catch (err) {
+        if (isConditionFailure(err)) return null;
+        throw err;
+      }
+    },
+    claimVersion: (raceId, expected, next) => claimVersion(ddb, table, { raceId }, expected, next, "raceId"),
+    async delete(raceId) {
+      await ddb.send(new DeleteCommand({ TableName: table, Key: { raceId } }));
+    },
+  };
+}
+
+function venueRepo(ddb: DynamoDBDocumentClient, table: string): VenueRepo {
+  const get = async (venueId: string) => {
+    const res = await ddb.send(new GetCommand({ TableName: table, Key: { venueId } }));
+    return (res.Item as Venue | undefined) ?? null;
+  };
+  return {
+    list: async () => (await scanAll(ddb, { TableName: table })) as Venue[],
+    get,
+    async create(venue) {
+      try {
+        await ddb.send(new PutCommand({
+          TableName: table,
+          Item: venue,
+          ConditionExpression: "attribute_not_exists(venueId)",
+        }));
+      } catch (err) {
+        if (isConditionFailure(err)) throw new ConflictError(`Venue ${venue.venueId} already exists`);
+        throw err;
+      }
+    },
+    async update(venueId, patch) {
+      const { sets, names, values } = setExpression(patch);
+      if (!sets.length) return get(venueId);
+      try {
+        const res = await ddb.send(new UpdateCommand({
+          TableName: table,
+          Key: { venueId },
+          UpdateExpression: `SET ${sets.join(", ")}`,
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: values,
+          ConditionExpression: "attribute_exists(venueId)",
+          ReturnValues: "ALL_NEW",
+        }));
+        return (res.Attributes as Venue | undefined) ?? null;
+      } catch (err) {
+        if (isConditionFailure(err)) return null;
+        throw err;
+      }
+    },
+    async delete(venueId) {
+      await ddb.send(new DeleteCommand({ TableName: table, Key: { venueId } }));
+    },
+  };
+}
+
+function raceTemplateRepo(ddb: DynamoDBDocumentClient, table: string): RaceTemplateRepo {
+  const get = async (templateId: string) => {
+    const res = await ddb.send(new GetCommand({ TableName: table, Key: { templateId } }));
+    return (res.Item as RaceTemplate | undefined) ?? null;
+  };
+  return {
+    list: async () => (await scanAll(ddb, { TableName: table })) as RaceTemplate[],
+    get,
+    async create(template) {
+      try {
+        await ddb.send(new PutCommand({
+          TableName: table,
+          Item: template,
+          ConditionExpression: "attribute_not_exists(templateId)",
+        }));
+      } catch (err) {
+        if (isConditionFailure(err)) throw new ConflictError(`Race template ${template.templateId} already exists`);
+        throw err;
+      }
+    },
+    async update(templateId, patch) {
+      const { sets, names, values } = setExpression(patch);
+      if (!sets.length) return get(templateId);
+      try {
+        const res = await ddb.send(new UpdateCommand({
+          TableName: table,
+          Key: { templateId },
+          UpdateExpression: `SET ${sets.join(", ")}`,
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: values,
+          ConditionExpression: "attribute_exists(templateId)",
+          ReturnValues: "ALL_NEW",
+        }));
+        return (res.Attributes as RaceTemplate | undefined) ?? null;
+      } catch (err) {
+        if (isConditionFailure(err)) return null;
+        throw err;
+      }
+    },
+    async delete(templateId) {
+      await ddb.send(new DeleteCommand({ TableName: table, Key: { templateId } }));
+    },
+  };
+}
+
+function rosterRepo(ddb: DynamoDBDocumentClient, table: string): RosterRepo {
+  const items = async (raceId: string, teamId: string) => (await queryAll(ddb, {
+    TableName: table,
+    KeyConditionExpression: "pk = :pk",
+    ExpressionAttributeValues: { ":pk": rosterPk(raceId, teamId) },
+  })).filter(i => i.sk !== ROSTER_META_SK);
+  return {
+    async list(raceId, teamId) {
+      return (await items(raceId, teamId)).map(i => ({
+        raceId, teamId,
+        racerId: i.racerId as string,
+        gender: i.gender,
+        class: i.class,
+        startOrder: (i.startOrder as number | null) ?? null,
+      }));
+    },
+    async count(raceId, teamId) {
+      const res = await ddb.send(new QueryCommand({
+        TableName: table,
+        KeyConditionExpression: "pk = :pk",
+        FilterExpression: "sk <> :meta",
+        ExpressionAttributeValues: { ":pk": rosterPk(raceId, teamId), ":meta": ROSTER_META_SK },
+        Select: "COUNT",
+      }));
+      return res.Count ?? 0;
+    },
+    async put(entry: RosterEntry, opts) {
+      try {
+        await ddb.send(new PutCommand({
+          TableName: table,
+          Item: {
+            pk: rosterPk(entry.raceId, entry.teamId),
+            sk: rosterSk(entry),
+            racerId: entry.racerId,
+            gender: entry.gender,
+            class: entry.class,
+            startOrder: entry.startOrder,
+          },
+          ConditionExpression: opts?.ifAbsent ? "attribute_not_exists(pk) OR attribute_not_exists(sk)" : undefined,
+        }));
+      } catch (err) {
+        if (isConditionFailure(err)) throw new ConflictError("Racer is already on this roster.");
+        throw err;
+      }
+    },
+    async delete(key) {
+      await ddb.send(new DeleteCommand({
+        TableName: table,
+        Key: { pk: rosterPk(key.raceId, key.teamId), sk: rosterSk(key) },
+      }));
+    },
+    async deleteAll(raceId, teamId) {
+      for (const item of await items(raceId, teamId)) {
+        await ddb.send(new DeleteCommand({ TableName: table, Key: { pk: item.pk, sk: item.sk } }));
+      }
+    },
+    async purge(raceId, teamId) {
+      for (const item of await items(raceId, teamId)) {
+        await ddb.send(new DeleteCommand({ TableName: table, Key: { pk: item.pk, sk: item.sk } }));
+      }
+      await ddb.send(new DeleteCommand({ TableName: table, Key: { pk: rosterPk(raceId, teamId), sk: ROSTER_META_SK } }));
+    },
+    async getVersion(raceId, teamId) {
+      const res = await ddb.send(new GetCommand({ TableName: table, Key: { pk: rosterPk(raceId, teamId), sk: ROSTER_META_SK } }));
+      return (res.Item?.version as number | undefined) ?? 0;
+    },
+    claimVersion: (raceId, teamId, expected, next) =>
+      claimVersion(ddb, table, { pk: rosterPk(raceId, teamId), sk: ROSTER_META_SK }, expected, next),
+  };
+}
+
+function startListRepo(ddb: DynamoDBDocumentClient, table: string): StartListRepo {
+  const items = (raceId: string) => queryAll(ddb, {
+    TableName: table,
+    KeyConditionExpression: "raceId = :r",
+    ExpressionAttributeValues: { ":r": raceId },
+  });
+  const toSettings = (i: Item): StartListSettings => ({
+    excludedBibs: (i.excludedBibs as number[] | undefined) ?? [],
+    meta: i.meta,
+  });
+  return {
+    async get(raceId) {
+      const all = await items(raceId);
+      const settingsItem = all.find(i => i.bib === 0);
+      const entries = all
+        .filter(i => i.bib !== 0)
+        .map(i => toStartListEntry(raceId, i))
+        .sort((a, b) => a.bib - b.bib);
+      return { entries, ...(settingsItem ? toSettings(settingsItem) : { excludedBibs: [] }) };
+    },
+    async getSettings(raceId) {
+      const res = await ddb.send(new GetCommand({ TableName: table, Key: { raceId, bib: 0 } }));
+      return res.Item ? toSettings(res.Item) : null;
+    },
+    async putSettings(raceId, settings) {
+      // An update rather than a put, so the row's version survives.
+      await ddb.send(new UpdateCommand({
+        TableName: table,
+        Key: { raceId, bib: 0 },
+        UpdateExpression: settings.meta ? "SET excludedBibs = :x, meta = :m" : "SET excludedBibs = :x REMOVE meta",
+        ExpressionAttributeValues: { ":x": settings.excludedBibs, ...(settings.meta ? { ":m": settings.meta } : {}) },
+      }));
+    },
+    async putEntry(entry) {
+      await ddb.send(new PutCommand({ TableName: table, Item: { ...entry } }));
+    },
+    async deleteEntry(raceId, bib) {
+      await ddb.send(new DeleteCommand({ TableName: table, Key: { raceId, bib } }));
+    },
+    async clear(raceId) {
+      for (const item of await items(raceId)) {
+        if (item.bib === 0) continue;
+        await ddb.send(new DeleteCommand({ TableName: table, Key: { raceId, bib: item.bib } }));
+      }
+    },
+    async delete(raceId) {
+      for (const item of await items(raceId)) {
+        await ddb.send(new DeleteCommand({ TableName: table, Key: { raceId, bib: item.bib } }));
+      }
+    },
+    async getVersion(raceId) {
+      const res = await ddb.send(new GetCommand({ TableName: table, Key: { raceId, bib: 0 } }));
+      return (res.Item?.version as number | undefined) ?? 0;
+    },
+    claimVersion: (raceId, expected, next) => claimVersion(ddb, table, { raceId, bib: 0 }, expected, next),
+  };
+}
+
+function resultsRepo(ddb: DynamoDBDocumentClient, table: string): ResultsRepo {
+  const items = (raceId: string) => queryAll(ddb, {
+    TableName: table,
+    KeyConditionExpression: "raceId = :r",
+    ExpressionAttributeValues: { ":r": raceId },
+  });
+  const putSummary = async (raceId: string, summary: ResultsSummary) => {
+    await ddb.send(new PutCommand({ TableName: table, Item: { raceId, bib: 0, ...summary } }));
+  };
+  const deleteAll = async (raceId: string) => {
+    for (const item of await items(raceId)) {
+      await ddb.send(new DeleteCommand({ TableName: table, Key: { raceId, bib: item.bib } }));
+    }
+  };
+  return {
+    async get(raceId) {
+      const all = await items(raceId);
+      const summary = all.find(i => i.bib === 0);
+      return {
+        entries: all.filter(i => i.bib !== 0).map(i => toResultEntry(raceId, i)),
+        summary: summary
+          ? {
+            generatedAt: String(summary.generatedAt ?? ""),
+            issues: (summary.issues as string[] | undefined) ?? [],
+            teamScores: ((summary.teamScores ?? []) as Item[]).map(upgradeTeamScore),
+          }
+          : null,
+      };
+    },
+    async replace(raceId, entries, summary) {
+      await deleteAll(raceId);
+      await putSummary(raceId, summary);
+      for (const e of entries) {
+        await ddb.send(new PutCommand({ TableName: table, Item: fromResultEntry(e) }));
+      }
+    },
+    putSummary,
+    delete: deleteAll,
+  };
+}
+
+function auditRepo(ddb: DynamoDBDocumentClient, table: string): AuditRepo {
+  const byIndex = async (indexName: string, key: "raceId" | "teamId", value: string, limit: number) => {
+    const res = await ddb.send(new QueryCommand({
+      TableName: table,
+      IndexName: indexName,
+      KeyConditionExpression: `${key} = :v`,
+      ExpressionAttributeValues: { ":v": value },
+      ScanIndexForward: false,
+      Limit: limit,
+    }));
+    return (res.Items ?? []) as AuditEntry[];
+  };
+  return {
+    async record(entry) {
+      // Snapshots can hold undefined fields, which the document client refuses to marshal.
+      await ddb.send(new PutCommand({ TableName: table, Item: JSON.parse(JSON.stringify(entry)) }));
+    },
+    listByRace: (raceId, limit) => byIndex("byRace", "raceId", raceId, limit),
+    listByTeam: (teamId, limit) => byIndex("byTeam", "teamId", teamId, limit),
+  };
+}
+
+function idempotencyRepo(ddb: DynamoDBDocumentClient, table: string): IdempotencyRepo {
+  // TTL deletes lag behind by up to a couple of days, so expiry is checked here too.
+  const now = () => Math.floor(Date.now() / 1000);
+  return {
+    async get(key) {
+      const res = await ddb.send(new GetCommand({ TableName: table, Key: { key } }));
+      const record = res.Item as IdempotencyRecord | undefined;
+      return record && record.expiresAt > now() ? record : null;
+    },
+    async begin(record) {
+      try {
+        await ddb.send(new PutCommand({
+          TableName: table,
+          Item: record,
+          ConditionExpression: "attribute_not_exists(#k) OR expiresAt <= :now",
+          ExpressionAttributeNames: { "#k": "key" },
+          ExpressionAttributeValues: { ":now": now() },
+        }));
+        return true;
+      } catch (err) {
+        if (isConditionFailure(err)) return false;
+        throw err;
+      }
+    },
+    async complete(key, response) {
+      await ddb.send(new UpdateCommand({
+        TableName: table,
+        Key: { key },
+        UpdateExpression: "SET #r = :r",
+        ExpressionAttributeNames: { "#r": "response" },
+        ExpressionAttributeValues: { ":r": response },
+      }));
+    },
+    async release(key) {
+      await ddb.send(new DeleteCommand({ TableName: table, Key: { key } }));
+    },
+  };
+}
+
+export function createDynamoRepos(ddb: DynamoDBDocumentClient, tables: TableNames): Repos {
+  return {
+    seasons: seasonRepo(ddb, tables.seasons),
+    ruleSets: ruleSetRepo(ddb, tables.ruleSets),
+    users: userRepo(ddb, tables.users),
+    teams: teamRepo(ddb, tables.teams),
+    coOps: coOpRepo(ddb, tables.coOps),
+    racers: racerRepo(ddb, tables.racers),
+    races: raceRepo(ddb, tables.races),
+    venues: venueRepo(ddb, tables.venues),
+    raceTemplates: raceTemplateRepo(ddb, tables.raceTemplates),
+    rosters: rosterRepo(ddb, tables.rosters),
+    startLists: startListRepo(ddb, tables.startLists),
+    results: resultsRepo(ddb, tables.results),
+    audit: auditRepo(ddb, tables.audit),
+    idempotency: idempotencyRepo(ddb, tables.idempotency),
+  };
+}
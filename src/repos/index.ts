@@ -0,0 +1,16 @@
+import { ddb } from "../db";
+import { createDynamoRepos, tablesFromEnv } from "./dynamo";
+import { Repos } from "./types";
+
+export * from "./types";
+
+let current: Repos | undefined;
+
+// Routers call this per request; scripts/dev.ts swaps in the in-memory implementation.
+export function repos(): Repos {
+  return (current ??= createDynamoRepos(ddb, tablesFromEnv()));
+}
+
+export function useRepos(r: Repos) {
+  current = r;
+}
@@ -0,0 +1,29 @@
+import { ResultEntry, TeamScore } from "./types";
+
+// Results saved before races could have any number of runs kept two runs in flat fields. These
+// turn them into the arrays:
+// - entries: run1/run2 (RunInfo objects) -> runs, run1Points/run2Points -> runPoints
+// - team scores: run1TotalSec/run2TotalSec -> runTotalsSec, run1Contribs/run2Contribs -> runContribs
+// Anything already in the new shape passes through untouched. The memory repository upgrades its
+// saved state with both; the DynamoDB one uses upgradeTeamScore for summaries, and reads its flat
+// run1Status/run1TimeSec entry rows in toResultEntry instead.
+
+export function upgradeResultEntry(raw: Record<string, any>): ResultEntry {
+  if (Array.isArray(raw.runs)) return raw as ResultEntry;
+  const { run1, run2, run1Points, run2Points, ...rest } = raw;
+  return {
+    ...rest,
+    runs: [run1 ?? { status: 0 }, run2 ?? { status: 0 }],
+    runPoints: [Number(run1Points ?? 0), Number(run2Points ?? 0)],
+  } as ResultEntry;
+}
+
+export function upgradeTeamScore(raw: Record<string, any>): TeamScore {
+  if (Array.isArray(raw.runTotalsSec)) return raw as TeamScore;
+  const { run1TotalSec, run2TotalSec, run1Contribs, run2Contribs, ...rest } = raw;
+  return {
+    ...rest,
+    runTotalsSec: [run1TotalSec ?? null, run2TotalSec ?? null],
+    runContribs: [run1Contribs ?? [], run2Contribs ?? []],
+  } as TeamScore;
+}
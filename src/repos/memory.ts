@@ -0,0 +1,373 @@
+import { ConflictError } from "../errors";
+import { upgradeResultEntry, upgradeTeamScore } from "./legacyResults";
+import {
+  AuditEntry,
+  CoOp,
+  IdempotencyRecord,
+  Race,
+  RaceResults,
+  RaceTemplate,
+  Racer,
+  Repos,
+  RosterEntry,
+  RuleSet,
+  Season,
+  StartListEntry,
+  StartListSettings,
+  Team,
+  User,
+  Venue,
+} from "./types";
+
+// Plain JSON-serializable state, so the dev server can snapshot it to a file.
+export type MemoryState = {
+  seasons: Record<string, Season>;
+  ruleSets: Record<string, RuleSet>;
+  users: Record<string, User>;
+  teams: Record<string, Team>;
+  coOps: Record<string, CoOp>;
+  racers: Record<string, Racer>;
+  races: Record<string, Race>;
+  venues: Record<string, Venue>;
+  raceTemplates: Record<string, RaceTemplate>;
+  // "<raceId>#<teamId>" -> entries
+  rosters: Record<string, RosterEntry[]>;
+  startLists: Record<string, { entries: StartListEntry[]; settings: StartListSettings | null }>;
+  results: Record<string, RaceResults>;
+  audit: AuditEntry[];
+  // "roster#<raceId>#<teamId>" / "startList#<raceId>" -> version; races keep theirs on the race.
+  versions: Record<string, number>;
+  idempotency: Record<string, IdempotencyRecord>;
+};
+
+export function emptyMemoryState(): MemoryState {
+  return { seasons: {}, ruleSets: {}, users: {}, teams: {}, coOps: {}, racers: {}, races: {}, venues: {}, raceTemplates: {}, rosters: {}, startLists: {}, results: {}, audit: [], versions: {}, idempotency: {} };
+}
+
+// Copies on the way in and out so callers can't mutate stored rows, like a real table.
+function clone<T>(v: T): T {
+  return v === undefined ? v : JSON.parse(JSON.stringify(v));
+}
+
+function rosterKey(raceId: string, teamId: string) {
+  return `${raceId}#${teamId}`;
+}
+
+function sameRosterRow(a: Pick<RosterEntry, "racerId" | "gender" | "class">, b: Pick<RosterEntry, "racerId" | "gender" | "class">) {
+  return a.racerId === b.racerId && a.gender === b.gender && a.class === b.class;
+}
+
+export function createMemoryRepos(state: MemoryState = emptyMemoryState()): Repos {
+  state.seasons ??= {};
+  state.ruleSets ??= {};
+  state.users ??= {};
+  state.coOps ??= {};
+  state.venues ??= {};
+  state.raceTemplates ??= {};
+  for (const results of Object.values(state.results)) {
+    results.entries = results.entries.map(upgradeResultEntry);
+    if (results.summary) results.summary.teamScores = results.summary.teamScores.map(upgradeTeamScore);
+  }
+  state.audit ??= [];
+  state.versions ??= {};
+  state.idempotency ??= {};
+  const unexpired = (key: string) => {
+    const record = state.idempotency[key];
+    return record && record.expiresAt > Date.now() / 1000 ? record : undefined;
+  };
+  const claim = (key: string, expected: number, next = expected + 1) => {
+    if ((state.versions[key] ?? 0) !== expected) return false;
+    state.versions[key] = next;
+    return true;
+  };
+  const newestFirst = (entries: AuditEntry[], limit: number) =>
+    clone(entries.slice().sort((a, b) => b.at.localeCompare(a.at)).slice(0, limit));
+  const startList = (raceId: string) => (state.startLists[raceId] ??= { entries: [], settings: null });
+
+  return {
+    seasons: {
+      list: async () => clone(Object.values(state.seasons)),
+      get: async seasonId => clone(state.seasons[seasonId] ?? null),
+      async create(season) {
+        if (state.seasons[season.seasonId]) throw new ConflictError(`Season ${season.seasonId} already exists`);
+        state.seasons[season.seasonId] = clone(season);
+      },
+      async put(season) {
+        state.seasons[season.seasonId] = clone(season);
+      },
+      async update(seasonId, patch) {
+        const existing = state.seasons[seasonId];
+        if (!existing) return null;
+        state.seasons[seasonId] = { ...existing, ...clone(patch) };
+        return clone(state.seasons[seasonId]);
+      },
+      async delete(seasonId) {
+        delete state.seasons[seasonId];
+      },
+    },
+
+    ruleSets: {
+      list: async () => clone(Object.values(state.ruleSets)),
+      get: async ruleSetId => clone(state.ruleSets[ruleSetId] ?? null),
+      async create(ruleSet) {
+        if (state.ruleSets[ruleSet.ruleSetId]) throw new ConflictError(`Rule set ${ruleSet.ruleSetId} already exists`);
+        state.ruleSets[ruleSet.ruleSetId] = clone(ruleSet);
+      },
+      async put(ruleSet) {
+        state.ruleSets[ruleSet.ruleSetId] = clone(ruleSet);
+      },
+      async update(ruleSetId, patch) {
+        const existing = state.ruleSets[ruleSetId];
+        if (!existing) return null;
+        state.ruleSets[ruleSetId] = { ...existing, ...clone(patch) };
+        return clone(state.ruleSets[ruleSetId]);
+      },
+      async delete(ruleSetId) {
+        delete state.ruleSets[ruleSetId];
+      },
+    },
+
+    users: {
+      list: async () => clone(Object.values(state.users)),
+      get: async userId => clone(state.users[userId] ?? null),
+      getMany: async userIds => clone(Array.from(new Set(userIds)).map(id => state.users[id]).filter(Boolean)),
+      async create(user) {
+        if (state.users[user.userId]) throw new ConflictError(`User ${user.userId} already exists`);
+        state.users[user.userId] = clone(user);
+      },
+      async put(user) {
+        state.users[user.userId] = clone(user);
+      },
+      async update(userId, patch) {
+        const existing = state.users[userId];
+        if (!existing) return null;
+        state.users[userId] = { ...existing, ...clone(patch) };
+        return clone(state.users[userId]);
+      },
+      async delete(userId) {
+        delete state.users[userId];
+      },
+    },
+
+    teams: {
+      list: async () => clone(Object.values(state.teams)),
+      get: async teamId => clone(state.teams[teamId] ?? null),
+      getMany: async teamIds => clone(Array.from(new Set(teamIds)).map(id => state.teams[id]).filter(Boolean)),
+      async create(team) {
+        if (state.teams[team.teamId]) throw new ConflictError(`Team ${team.teamId} already exists`);
+        state.teams[team.teamId] = clone(team);
+      },
+      async put(team) {
+        state.teams[team.teamId] = clone(team);
+      },
+      async update(teamId, patch) {
+        const existing = state.teams[teamId];
+        if (!existing) return null;
+        state.teams[teamId] = { ...existing, ...clone(patch) };
+        return clone(state.teams[teamId]);
+      },
+      async delete(teamId) {
+        delete state.teams[teamId];
+      },
+    },
+
+    coOps: {
+      list: async () => clone(Object.values(state.coOps)),
+      listBySeason: async seasonId => clone(Object.values(state.coOps).filter(c => c.seasonId === seasonId)),
+      get: async coOpId => clone(state.coOps[coOpId] ?? null),
+      async create(coOp) {
+        if (state.coOps[coOp.coOpId]) throw new ConflictError(`Co-op ${coOp.coOpId} already exists`);
+        state.coOps[coOp.coOpId] = clone(coOp);
+      },
+      async update(coOpId, patch) {
+        const existing = state.coOps[coOpId];
+        if (!existing) return null;
+        state.coOps[coOpId] = { ...existing, ...clone(patch) };
+        return clone(state.coOps[coOpId]);
+      },
+      async delete(coOpId) {
+        delete state.coOps[coOpId];
+      },
+    },
+
+    racers: {
+      get: async racerId => clone(state.racers[racerId] ?? null),
+      listByTeam: async teamId => clone(Object.values(state.racers).filter(r => r.teamId === teamId)),
+      async put(racer) {
+        state.racers[racer.racerId] = clone(racer);
+      },
+      async update(racerId, patch) {
+        const existing = state.racers[racerId];
+        if (!existing) return null;
+        state.racers[racerId] = { ...existing, ...clone(patch) };
+        return clone(state.racers[racerId]);
+      },
+      async delete(racerId) {
+        delete state.racers[racerId];
+      },
+    },
+
+    races: {
+      list: async () => clone(Object.values(state.races)),
+      listBySeason: async seasonId => clone(Object.values(state.races)
+        .filter(r => r.seasonId === seasonId)
+        .sort((a, b) => a.date.localeCompare(b.date))),
+      listByVenue: async venueId => clone(Object.values(state.races)
+        .filter(r => r.venueId === venueId)
+        .sort((a, b) => a.date.localeCompare(b.date))),
+      get: async raceId => clone(state.races[raceId] ?? null),
+      async create(race) {
+        if (state.races[race.raceId]) throw new ConflictError(`Race ${race.raceId} already exists`);
+        state.races[race.raceId] = clone(race);
+      },
+      async put(race) {
+        state.races[race.raceId] = clone(race);
+      },
+      async update(raceId, patch) {
+        const existing = state.races[raceId];
+        if (!existing) return null;
+        const next: Record<string, unknown> = { ...existing, ...clone(patch) };
+        for (const [key, value] of Object.entries(patch)) if (value === null) delete next[key];
+        state.races[raceId] = next as Race;
+        return clone(state.races[raceId]);
+      },
+      async delete(raceId) {
+        delete state.races[raceId];
+      },
+      async claimVersion(raceId, expected, next = expected + 1) {
+        const race = state.races[raceId];
+        if (!race || (race.version ?? 0) !== expected) return false;
+        race.version = next;
+        return true;
+      },
+    },
+
+    venues: {
+      list: async () => clone(Object.values(state.venues)),
+      get: async venueId => clone(state.venues[venueId] ?? null),
+      async create(venue) {
+        if (state.venues[venue.venueId]) throw new ConflictError(`Venue ${venue.venueId} already exists`);
+        state.venues[venue.venueId] = clone(venue);
+      },
+      async update(venueId, patch) {
+        const existing = state.venues[venueId];
+        if (!existing) return null;
+        state.venues[venueId] = { ...existing, ...clone(patch) };
+        return clone(state.venues[venueId]);
+      },
+      async delete(venueId) {
+        delete state.venues[venueId];
+      },
+    },
+
+    raceTemplates: {
+      list: async () => clone(Object.values(state.raceTemplates)),
+      get: async templateId => clone(state.raceTemplates[templateId] ?? null),
+      async create(template) {
+        if (state.raceTemplates[template.templateId]) throw new ConflictError(`Race template ${template.templateId} already exists`);
+        state.raceTemplates[template.templateId] = clone(template);
+      },
+      async update(templateId, patch) {
+        const existing = state.raceTemplates[templateId];
+        if (!existing) return null;
+        state.raceTemplates[templateId] = { ...existing, ...clone(patch) };
+        return clone(state.raceTemplates[templateId]);
+      },
+      async delete(templateId) {
+        delete state.raceTemplates[templateId];
+      },
+    },
+
+    rosters: {
+      list: async (raceId, teamId) => clone(state.rosters[rosterKey(raceId, teamId)] ?? []),
+      count: async (raceId, teamId) => (state.rosters[rosterKey(raceId, teamId)] ?? []).length,
+      async put(entry, opts) {
+        const rows = (state.rosters[rosterKey(entry.raceId, entry.teamId)] ??= []);
+        const idx = rows.findIndex(r => sameRosterRow(r, entry));
+        if (idx >= 0 && opts?.ifAbsent) throw new ConflictError("Racer is already on this roster.");
+        if (idx >= 0) rows[idx] = clone(entry);
+        else rows.push(clone(entry));
+      },
+      async delete(key) {
+        const k = rosterKey(key.raceId, key.teamId);
+        state.rosters[k] = (state.rosters[k] ?? []).filter(r => !sameRosterRow(r, key));
+      },
+      async deleteAll(raceId, teamId) {
+        delete state.rosters[rosterKey(raceId, teamId)];
+      },
+      async purge(raceId, teamId) {
+        delete state.rosters[rosterKey(raceId, teamId)];
+        delete state.versions[`roster#${rosterKey(raceId, teamId)}`];
+      },
+      getVersion: async (raceId, teamId) => state.versions[`roster#${rosterKey(raceId, teamId)}`] ?? 0,
+      claimVersion: async (raceId, teamId, expected, next) => claim(`roster#${rosterKey(raceId, teamId)}`, expected, next),
+    },
+
+    startLists: {
+      async get(raceId) {
+        const sl = state.startLists[raceId];
+        const entries = (sl?.entries ?? []).slice().sort((a, b) => a.bib - b.bib);
+        return clone({ entries, excludedBibs: sl?.settings?.excludedBibs ?? [], meta: sl?.settings?.meta });
+      },
+      getSettings: async raceId => clone(state.startLists[raceId]?.settings ?? null),
+      async putSettings(raceId, settings) {
+        startList(raceId).settings = clone(settings);
+      },
+      async putEntry(entry) {
+        const sl = startList(entry.raceId);
+        sl.entries = sl.entries.filter(e => e.bib !== entry.bib).concat(clone(entry));
+      },
+      async deleteEntry(raceId, bib) {
+        const sl = startList(raceId);
+        sl.entries = sl.entries.filter(e => e.bib !== bib);
+      },
+      async clear(raceId) {
+        startList(raceId).entries = [];
+      },
+      async delete(raceId) {
+        delete state.startLists[raceId];
+        delete state.versions[`startList#${raceId}`];
+      },
+      getVersion: async raceId => state.versions[`startList#${raceId}`] ?? 0,
+      claimVersion: async (raceId, expected, next) => claim(`startList#${raceId}`, expected, next),
+    },
+
+    results: {
+      get: async raceId => clone(state.results[raceId] ?? { entries: [], summary: null }),
+      async replace(raceId, entries, summary) {
+        state.results[raceId] = clone({ entries, summary });
+      },
+      async putSummary(raceId, summary) {
+        const existing = state.results[raceId] ?? { entries: [], summary: null };
+        state.results[raceId] = { ...existing, summary: clone(summary) };
+      },
+      async delete(raceId) {
+        delete state.results[raceId];
+      },
+    },
+
+    audit: {
+      async record(entry) {
+        state.audit.push(clone(entry));
+      },
+      listByRace: async (raceId, limit) => newestFirst(state.audit.filter(a => a.raceId === raceId), limit),
+      listByTeam: async (teamId, limit) => newestFirst(state.audit.filter(a => a.teamId === teamId), limit),
+    },
+
+    idempotency: {
+      get: async key => clone(unexpired(key) ?? null),
+      async begin(record) {
+        if (unexpired(record.key)) return false;
+        state.idempotency[record.key] = clone(record);
+        return true;
+      },
+      async complete(key, response) {
+        const record = state.idempotency[key];
+        if (record) record.response = clone(response);
+      },
+      async release(key) {
+        delete state.idempotency[key];
+      },
+    },
+  };
+}
@@ -0,0 +1,455 @@
+export const GENDERS = ["Male", "Female"] as const;
+export const RACER_CLASSES = ["Varsity", "Varsity Alternate", "Jr Varsity", "Provisional", "DNS"] as const;
+export const ROLES = ["ADMIN", "COACH"] as const;
+export const RACE_TYPES = ["Slalom", "Giant Slalom", "Super-G", "Dual Slalom", "Parallel Slalom"] as const;
+// In order; src/raceStatus.ts has the allowed transitions.
+export const RACE_STATUSES = [
+  "draft",
+  "rosters_open",
+  "rosters_locked",
+  "start_list_published",
+  "results_provisional",
+  "results_official",
+] as const;
+
+export type Gender = (typeof GENDERS)[number];
+export type RacerClass = (typeof RACER_CLASSES)[number];
+export type RaceStatus = (typeof RACE_STATUSES)[number];
+export type RaceType = (typeof RACE_TYPES)[number];
+export type Role = (typeof ROLES)[number];
+
+export type User = {
+  userId: string;
+  name: string;
+  email?: string;
+  role: Role;
+  // Teams a coach is assigned to, mirrored in Team.coachUserIds; empty for admins.
+  teamIds: string[];
+};
+
+export type Team = {
+  teamId: string;
+  name: string;
+  // Short name for start lists and scoreboards, e.g. "SMA".
+  abbreviation?: string;
+  // CSS colors, primary first.
+  colors?: string[];
+  // Other names timing files use for the team; see src/teamNames.ts.
+  aliases?: string[];
+  coachUserIds?: string[];
+  nonLeague?: boolean;
+};
+
+export type Racer = {
+  racerId: string;
+  teamId: string;
+  // Display name; "First Last" unless given.
+  name: string;
+  firstName?: string;
+  lastName?: string;
+  gender: Gender;
+  class: RacerClass;
+  birthYear?: number;
+  // High-school graduation year; the grade follows from it.
+  gradYear?: number;
+  // U.S. Ski & Snowboard member number or FIS code, as timing files carry it.
+  license?: string;
+};
+
+export type TeamWithRacers = Team & { racers: Racer[] };
+
+// Schools that race as one squad for a season: their rosters share caps, they take one turn in the
+// start-list rotation and they are scored as one team. Racers keep their home team.
+export type CoOp = {
+  coOpId: string;
+  seasonId: string;
+  name: string;
+  // Member teams, two or more; a team is in at most one co-op per season.
+  teamIds: string[];
+};
+
+export type Season = {
+  seasonId: string;
+  name: string;
+  // Inclusive YYYY-MM-DD bounds.
+  startDate: string;
+  endDate: string;
+  // Names the league rule set this season races under.
+  ruleSetId?: string;
+};
+
+// A league's roster rules; src/rules.ts has the default for seasons without one.
+export type RuleSet = {
+  ruleSetId: string;
+  name: string;
+  // The classes racers can race in, in start and results order. DNS is always allowed.
+  classes: RacerClass[];
+  // Most roster entries per gender and class; classes left out are uncapped.
+  caps: Partial<Record<Gender, Partial<Record<RacerClass, number>>>>;
+  // Racers whose own class is listed race in it (or DNS) and can't be moved up.
+  lockedClasses: RacerClass[];
+};
+
+// One hill's run: races on the same course can be compared across seasons.
+export type Course = {
+  courseId: string;
+  name: string;
+  verticalDropM?: number;
+  lengthM?: number;
+  // The FIS (or national) homologation number.
+  homologation?: string;
+};
+
+export type Venue = {
+  venueId: string;
+  // The hill, e.g. "Mt. Hood Meadows".
+  name: string;
+  address?: string;
+  courses: Course[];
+};
+
+export type Race = {
+  raceId: string;
+  seasonId?: string;
+  name: string;
+  // Free text; races at a venue default it to the venue and course name.
+  location: string;
+  venueId?: string;
+  // One of the venue's courses.
+  courseId?: string;
+  date: string;
+  type: string;
+  // Timed runs; absent means the default for the type (see src/raceFormat.ts).
+  runs?: number;
+  // Absent on races from before statuses; see raceStatus() in src/raceStatus.ts.
+  status?: RaceStatus;
+  // When the race last entered each status.
+  statusChangedAt?: Partial<Record<RaceStatus, string>>;
+  // ISO date-time (UTC); src/jobs/lockRosters.ts locks rosters once it passes.
+  rosterDeadline?: string;
+  // Have that job generate the start list right after locking.
+  autoGenerateStartList?: boolean;
+  // Legacy; responses derive it from status.
+  locked?: boolean;
+  independent?: boolean;
+  // Set by DELETE /races/{raceId}; archived races are hidden from listings and read-only.
+  archivedAt?: string;
+  // POST /races/{raceId}/postpone: the make-up race that replaced this one (which is then
+  // read-only), the race a make-up replaces, and the first date of a race that was moved.
+  postponedTo?: string;
+  makeUpFor?: string;
+  originalDate?: string;
+  // Bumped on every versioned write (see src/concurrency.ts); absent means 0.
+  version?: number;
+};
+
+// The fields a race shares with the same race last season; POST /races/bulk fills rows from it.
+export type RaceTemplate = {
+  templateId: string;
+  name: string;
+  location: string;
+  venueId?: string;
+  courseId?: string;
+  type: string;
+  runs?: number;
+  independent?: boolean;
+  autoGenerateStartList?: boolean;
+};
+
+export type RosterEntry = {
+  raceId: string;
+  teamId: string;
+  racerId: string;
+  gender: Gender;
+  class: RacerClass;
+  startOrder: number | null;
+};
+
+export type StartListEntry = {
+  raceId: string;
+  racerId: string;
+  racerName: string;
+  teamId: string;
+  teamName: string;
+  // Set when the home team races in a co-op.
+  coOpId?: string;
+  coOpName?: string;
+  gender: Gender;
+  class: RacerClass;
+  bib: number;
+};
+
+export type StartListMeta = {
+  teamsOrder: string[];
+};
+
+// The bib-0 row of a start list: settings rather than a racer.
+export type StartListSettings = {
+  excludedBibs: number[];
+  meta?: StartListMeta;
+};
+
+export type StartList = StartListSettings & { entries: StartListEntry[] };
+
+export type ResultGender = Gender | "Unknown";
+export type ResultClass = Exclude<RacerClass, "DNS"> | "Unknown";
+
+export type RunInfo = {
+  status: number;
+  timeSec?: number;
+};
+
+export type ResultEntry = {
+  raceId: string;
+  bib: number;
+  racerId?: string;
+  racerName: string;
+  teamId?: string;
+  teamName: string;
+  coOpId?: string;
+  coOpName?: string;
+  gender: ResultGender;
+  class: ResultClass;
+  // One per run of the race, in order.
+  runs: RunInfo[];
+  runPoints: number[];
+  totalPoints: number;
+};
+
+export type TeamContribution = { bib: number; racerName: string; timeSec: number };
+
+export type TeamScore = {
+  gender: ResultGender;
+  // A co-op is scored under its coOpId and name.
+  teamId: string;
+  teamName: string;
+  // For a co-op, the member teams its scoring racers came from.
+  memberTeamIds?: string[];
+  // Per run: the team's best three times, or null with fewer than three finishers.
+  runTotalsSec: (number | null)[];
+  totalTimeSec: number | null;
+  runContribs: TeamContribution[][];
+  points: number;
+};
+
+// The bib-0 row of a race's results.
+export type ResultsSummary = {
+  generatedAt: string;
+  issues: string[];
+  teamScores: TeamScore[];
+};
+
+export type RaceResults = {
+  entries: ResultEntry[];
+  summary: ResultsSummary | null;
+};
+
+export type AuditActor = {
+  userId: string;
+  name?: string;
+  role: string;
+};
+
+// One mutating request: who made it, which route, and the affected data before and after.
+export type AuditEntry = {
+  auditId: string;
+  at: string;
+  actor: AuditActor | null;
+  method: string;
+  route: string;
+  operationId: string;
+  params: Record<string, string>;
+  raceId?: string;
+  teamId?: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type StoredResponse = {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+};
+
+// One Idempotency-Key. `response` is unset while the first request with it is still running.
+export type IdempotencyRecord = {
+  // "<userId>#<Idempotency-Key>"
+  key: string;
+  // Hash of the method, path and body the key was first used with.
+  fingerprint: string;
+  createdAt: string;
+  // Epoch seconds; the DynamoDB TTL attribute.
+  expiresAt: number;
+  response?: StoredResponse;
+};
+
+export interface TeamRepo {
+  list(): Promise<Team[]>;
+  get(teamId: string): Promise<Team | null>;
+  getMany(teamIds: string[]): Promise<Team[]>;
+  // Throws ConflictError when the teamId is taken.
+  create(team: Team): Promise<void>;
+  put(team: Team): Promise<void>;
+  update(teamId: string, patch: Partial<Omit<Team, "teamId">>): Promise<Team | null>;
+  delete(teamId: string): Promise<void>;
+}
+
+export interface UserRepo {
+  list(): Promise<User[]>;
+  get(userId: string): Promise<User | null>;
+  getMany(userIds: string[]): Promise<User[]>;
+  // Throws ConflictError when the userId is taken.
+  create(user: User): Promise<void>;
+  put(user: User): Promise<void>;
+  update(userId: string, patch: Partial<Omit<User, "userId">>): Promise<User | null>;
+  delete(userId: string): Promise<void>;
+}
+
+export interface RacerRepo {
+  get(racerId: string): Promise<Racer | null>;
+  listByTeam(teamId: string): Promise<Racer[]>;
+  put(racer: Racer): Promise<void>;
+  update(racerId: string, patch: Partial<Omit<Racer, "racerId">>): Promise<Racer | null>;
+  delete(racerId: string): Promise<void>;
+}
+
+export interface SeasonRepo {
+  list(): Promise<Season[]>;
+  get(seasonId: string): Promise<Season | null>;
+  // Throws ConflictError when the seasonId is taken.
+  create(season: Season): Promise<void>;
+  put(season: Season): Promise<void>;
+  update(seasonId: string, patch: Partial<Omit<Season, "seasonId">>): Promise<Season | null>;
+  delete(seasonId: string): Promise<void>;
+}
+
+export interface RuleSetRepo {
+  list(): Promise<RuleSet[]>;
+  get(ruleSetId: string): Promise<RuleSet | null>;
+  // Throws ConflictError when the ruleSetId is taken.
+  create(ruleSet: RuleSet): Promise<void>;
+  put(ruleSet: RuleSet): Promise<void>;
+  update(ruleSetId: string, patch: Partial<Omit<RuleSet, "ruleSetId">>): Promise<RuleSet | null>;
+  delete(ruleSetId: string): Promise<void>;
+}
+
+export interface VenueRepo {
+  list(): Promise<Venue[]>;
+  get(venueId: string): Promise<Venue | null>;
+  // Throws ConflictError when the venueId is taken.
+  create(venue: Venue): Promise<void>;
+  update(venueId: string, patch: Partial<Omit<Venue, "venueId">>): Promise<Venue | null>;
+  delete(venueId: string): Promise<void>;
+}
+
+export interface CoOpRepo {
+  list(): Promise<CoOp[]>;
+  // Through the bySeason index.
+  listBySeason(seasonId: string): Promise<CoOp[]>;
+  get(coOpId: string): Promise<CoOp | null>;
+  // Throws ConflictError when the coOpId is taken.
+  create(coOp: CoOp): Promise<void>;
+  update(coOpId: string, patch: Partial<Omit<CoOp, "coOpId">>): Promise<CoOp | null>;
+  delete(coOpId: string): Promise<void>;
+}
+
+export interface RaceTemplateRepo {
+  list(): Promise<RaceTemplate[]>;
+  get(templateId: string): Promise<RaceTemplate | null>;
+  // Throws ConflictError when the templateId is taken.
+  create(template: RaceTemplate): Promise<void>;
+  update(templateId: string, patch: Partial<Omit<RaceTemplate, "templateId">>): Promise<RaceTemplate | null>;
+  delete(templateId: string): Promise<void>;
+}
+
+export type RacePatch = { [K in Exclude<keyof Race, "raceId" | "version">]?: Race[K] | null };
+
+export interface RaceRepo {
+  list(): Promise<Race[]>;
+  // Through the bySeason index, ordered by date.
+  listBySeason(seasonId: string): Promise<Race[]>;
+  // Through the byVenue index, ordered by date.
+  listByVenue(venueId: string): Promise<Race[]>;
+  get(raceId: string): Promise<Race | null>;
+  // Throws ConflictError when the raceId is taken.
+  create(race: Race): Promise<void>;
+  // Unconditional write, for seeding.
+  put(race: Race): Promise<void>;
+  // null removes a field.
+  update(raceId: string, patch: RacePatch): Promise<Race | null>;
+  delete(raceId: string): Promise<void>;
+  // Moves the version from `expected` to `next` (by default `expected + 1`); false when it was no
+  // longer `expected`.
+  claimVersion(raceId: string, expected: number, next?: number): Promise<boolean>;
+}
+
+export type RosterKey = Pick<RosterEntry, "raceId" | "teamId" | "racerId" | "gender" | "class">;
+
+export interface RosterRepo {
+  list(raceId: string, teamId: string): Promise<RosterEntry[]>;
+  count(raceId: string, teamId: string): Promise<number>;
+  // With ifAbsent, throws ConflictError when the same racer/class entry already exists.
+  put(entry: RosterEntry, opts?: { ifAbsent?: boolean }): Promise<void>;
+  delete(key: RosterKey): Promise<void>;
+  deleteAll(raceId: string, teamId: string): Promise<void>;
+  // Drops the entries and the version, for purging a race.
+  purge(raceId: string, teamId: string): Promise<void>;
+  getVersion(raceId: string, teamId: string): Promise<number>;
+  claimVersion(raceId: string, teamId: string, expected: number, next?: number): Promise<boolean>;
+}
+
+export interface StartListRepo {
+  get(raceId: string): Promise<StartList>;
+  getSettings(raceId: string): Promise<StartListSettings | null>;
+  putSettings(raceId: string, settings: StartListSettings): Promise<void>;
+  putEntry(entry: StartListEntry): Promise<void>;
+  deleteEntry(raceId: string, bib: number): Promise<void>;
+  // Drops the entries but keeps the settings row (and its version).
+  clear(raceId: string): Promise<void>;
+  // Drops every row for the race, settings included.
+  delete(raceId: string): Promise<void>;
+  getVersion(raceId: string): Promise<number>;
+  claimVersion(raceId: string, expected: number, next?: number): Promise<boolean>;
+}
+
+export interface ResultsRepo {
+  get(raceId: string): Promise<RaceResults>;
+  // Replaces every row for the race.
+  replace(raceId: string, entries: ResultEntry[], summary: ResultsSummary): Promise<void>;
+  putSummary(raceId: string, summary: ResultsSummary): Promise<void>;
+  delete(raceId: string): Promise<void>;
+}
+
+export interface AuditRepo {
+  record(entry: AuditEntry): Promise<void>;
+  // Newest first.
+  listByRace(raceId: string, limit: number): Promise<AuditEntry[]>;
+  listByTeam(teamId: string, limit: number): Promise<AuditEntry[]>;
+}
+
+export interface IdempotencyRepo {
+  // Expired records count as absent.
+  get(key: string): Promise<IdempotencyRecord | null>;
+  // false when an unexpired record already holds the key.
+  begin(record: IdempotencyRecord): Promise<boolean>;
+  complete(key: string, response: StoredResponse): Promise<void>;
+  // Frees the key again after a failed request.
+  release(key: string): Promise<void>;
+}
+
+export type Repos = {
+  seasons: SeasonRepo;
+  ruleSets: RuleSetRepo;
+  users: UserRepo;
+  teams: TeamRepo;
+  coOps: CoOpRepo;
+  racers: RacerRepo;
+  races: RaceRepo;
+  venues: VenueRepo;
+  raceTemplates: RaceTemplateRepo;
+  rosters: RosterRepo;
+  startLists: StartListRepo;
+  results: ResultsRepo;
+  audit: AuditRepo;
+  idempotency: IdempotencyRepo;
+};
@@ -0,0 +1,188 @@
+import type { Access } from "./auth";
+import * as body from "./schemas";
+import type { ObjectSchema, Schema } from "./validation";
+
+// Kept free of router imports so lib/SkiApiStack.ts can read it at synth time.
+export type HttpVerb = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+export type RouterName = "seasons" | "ruleSets" | "users" | "teams" | "coOps" | "teamSeason" | "racers" | "races" | "venues" | "raceTemplates" | "roster" | "startlist" | "results" | "audit" | "calendar" | "openapi";
+
+// What a mutating route touches, and so what src/audit.ts snapshots before and after it runs.
+export type AuditScope = "season" | "ruleSet" | "user" | "team" | "coOp" | "teamRacers" | "race" | "schedule" | "venue" | "raceTemplate" | "roster" | "startList" | "results";
+
+// Which version a route's ETag reports, and which one its If-Match is checked against (src/concurrency.ts).
+export type VersionScope = "race" | "roster" | "startList";
+
+// A component name from src/openapi.ts; ["Name"] for an array of them.
+export type ResponseRef = string | [string];
+
+export type RouteDef = {
+  method: HttpVerb;
+  path: string;
+  router: RouterName;
+  access: Access;
+  // Names the client method and the OpenAPI operation.
+  operationId: string;
+  // Validated before the router runs; see src/schemas.ts.
+  body?: ObjectSchema;
+  query?: Record<string, Schema>;
+  response?: ResponseRef;
+  // For routes that answer something other than JSON; the response is then a plain string.
+  contentType?: string;
+  audit?: AuditScope;
+  version?: VersionScope;
+  // Honours an Idempotency-Key header by replaying the first response (src/idempotency.ts).
+  idempotent?: boolean;
+};
+
+const auditQuery: Record<string, Schema> = { limit: { type: "integer", minimum: 1, maximum: 500, description: "Default 100" } };
+
+export const ROUTES: RouteDef[] = [
+  { method: "GET", path: "/seasons", router: "seasons", access: "public", operationId: "listSeasons", response: ["Season"] },
+  { method: "POST", path: "/seasons", router: "seasons", access: "admin", operationId: "createSeason", body: body.createSeasonBody, response: "Season", audit: "season" },
+  { method: "GET", path: "/seasons/{seasonId}", router: "seasons", access: "public", operationId: "getSeason", response: "Season" },
+  { method: "PATCH", path: "/seasons/{seasonId}", router: "seasons", access: "admin", operationId: "updateSeason", body: body.updateSeasonBody, response: "Season", audit: "season" },
+  { method: "DELETE", path: "/seasons/{seasonId}", router: "seasons", access: "admin", operationId: "deleteSeason", response: "Ok", audit: "season" },
+  { method: "GET", path: "/seasons/{seasonId}/races", router: "seasons", access: "public", operationId: "listSeasonRaces", response: ["Race"] },
+
+  { method: "GET", path: "/rule-sets", router: "ruleSets", access: "public", operationId: "listRuleSets", response: ["RuleSet"] },
+  { method: "POST", path: "/rule-sets", router: "ruleSets", access: "admin", operationId: "createRuleSet", body: body.createRuleSetBody, response: "RuleSet", audit: "ruleSet" },
+  { method: "GET", path: "/rule-sets/{ruleSetId}", router: "ruleSets", access: "public", operationId: "getRuleSet", response: "RuleSet" },
+  { method: "PATCH", path: "/rule-sets/{ruleSetId}", router: "ruleSets", access: "admin", operationId: "updateRuleSet", body: body.updateRuleSetBody, response: "RuleSet", audit: "ruleSet" },
+  { method: "DELETE", path: "/rule-sets/{ruleSetId}", router: "ruleSets", access: "admin", operationId: "deleteRuleSet", response: "Ok", audit: "ruleSet" },
+
+  { method: "GET", path: "/me", router: "users", access: "user", operationId: "getMe", response: "User" },
+  { method: "GET", path: "/users", router: "users", access: "admin", operationId: "listUsers", response: ["User"] },
+  { method: "POST", path: "/users", router: "users", access: "admin", operationId: "createUser", body: body.createUserBody, response: "User", audit: "user" },
+  { method: "GET", path: "/users/{userId}", router: "users", access: "admin", operationId: "getUser", response: "User" },
+  { method: "PATCH", path: "/users/{userId}", router: "users", access: "admin", operationId: "updateUser", body: body.updateUserBody, response: "User", audit: "user" },
+  { method: "DELETE", path: "/users/{userId}", router: "users", access: "admin", operationId: "deleteUser", response: "Ok", audit: "user" },
+
+  { method: "GET", path: "/teams", router: "teams", access: "public", operationId: "listTeams", query: { ids: { type: "string", description: "Comma-separated teamIds" } }, response: ["TeamWithRacers"] },
+  { method: "POST", path: "/teams", router: "teams", access: "admin", operationId: "createTeam", body: body.createTeamBody, response: "TeamWithRacers", audit: "team" },
+  { method: "GET", path: "/teams/{teamId}", router: "teams", access: "public", operationId: "getTeam", response: "TeamWithRacers" },
+  { method: "PATCH", path: "/teams/{teamId}", router: "teams", access: "admin", operationId: "updateTeam", body: body.updateTeamBody, response: "TeamWithRacers", audit: "team" },
+  { method: "DELETE", path: "/teams/{teamId}", router: "teams", access: "admin", operationId: "deleteTeam", response: "Ok", audit: "team" },
+  { method: "GET", path: "/teams/{teamId}/season", router: "teamSeason", access: "public", operationId: "getTeamSeason", query: { seasonId: { type: "string", description: "Defaults to the current season" } }, response: "TeamSeason" },
+  { method: "POST", path: "/teams/{teamId}/racers", router: "racers", access: "teamCoach", operationId: "createRacer", body: body.createRacerBody, response: "Racer", audit: "teamRacers" },
+  { method: "PATCH", path: "/teams/{teamId}/racers/{racerId}", router: "racers", access: "teamCoach", operationId: "updateRacer", body: body.updateRacerBody, response: "Racer", audit: "teamRacers" },
+  { method: "DELETE", path: "/teams/{teamId}/racers/{racerId}", router: "racers", access: "teamCoach", operationId: "deleteRacer", audit: "teamRacers" },
+
+  { method: "GET", path: "/co-ops", router: "coOps", access: "public", operationId: "listCoOps", query: { seasonId: { type: "string" } }, response: ["CoOp"] },
+  { method: "POST", path: "/co-ops", router: "coOps", access: "admin", operationId: "createCoOp", body: body.createCoOpBody, response: "CoOp", audit: "coOp" },
+  { method: "GET", path: "/co-ops/{coOpId}", router: "coOps", access: "public", operationId: "getCoOp", response: "CoOp" },
+  { method: "PATCH", path: "/co-ops/{coOpId}", router: "coOps", access: "admin", operationId: "updateCoOp", body: body.updateCoOpBody, response: "CoOp", audit: "coOp" },
+  { method: "DELETE", path: "/co-ops/{coOpId}", router: "coOps", access: "admin", operationId: "deleteCoOp", response: "Ok", audit: "coOp" },
+
+  { method: "GET", path: "/calendar.ics", router: "calendar", access: "public", operationId: "getCalendar", contentType: "text/calendar" },
+  { method: "GET", path: "/teams/{teamId}/calendar.ics", router: "calendar", access: "public", operationId: "getTeamCalendar", contentType: "text/calendar" },
+
+  { method: "GET", path: "/venues", router: "venues", access: "public", operationId: "listVenues", response: ["Venue"] },
+  { method: "POST", path: "/venues", router: "venues", access: "admin", operationId: "createVenue", body: body.createVenueBody, response: "Venue", audit: "venue" },
+  { method: "GET", path: "/venues/{venueId}", router: "venues", access: "public", operationId: "getVenue", response: "Venue" },
+  { method: "PATCH", path: "/venues/{venueId}", router: "venues", access: "admin", operationId: "updateVenue", body: body.updateVenueBody, response: "Venue", audit: "venue" },
+  { method: "DELETE", path: "/venues/{venueId}", router: "venues", access: "admin", operationId: "deleteVenue", response: "Ok", audit: "venue" },
+  { method: "GET", path: "/venues/{venueId}/races", router: "venues", access: "public", operationId: "listVenueRaces", query: { courseId: { type: "string" } }, response: ["VenueRace"] },
+
+  { method: "GET", path: "/race-templates", router: "raceTemplates", access: "public", operationId: "listRaceTemplates", response: ["RaceTemplate"] },
+  { method: "POST", path: "/race-templates", router: "raceTemplates", access: "admin", operationId: "createRaceTemplate", body: body.createRaceTemplateBody, response: "RaceTemplate", audit: "raceTemplate" },
+  { method: "GET", path: "/race-templates/{templateId}", router: "raceTemplates", access: "public", operationId: "getRaceTemplate", response: "RaceTemplate" },
+  { method: "PATCH", path: "/race-templates/{templateId}", router: "raceTemplates", access: "admin", operationId: "updateRaceTemplate", body: body.updateRaceTemplateBody, response: "RaceTemplate", audit: "raceTemplate" },
+  { method: "DELETE", path: "/race-templates/{templateId}", router: "raceTemplates", access: "admin", operationId: "deleteRaceTemplate", response: "Ok", audit: "raceTemplate" },
+
+  { method: "GET", path: "/races", router: "races", access: "public", operationId: "listRaces", query: {
+    seasonId: { type: "string", description: "Defaults to the current season; \"all\" for every race" },
+    archived: { type: "boolean", description: "true lists archived races instead" },
+  }, response: ["Race"] },
+  { method: "POST", path: "/races", router: "races", access: "admin", operationId: "createRace", body: body.createRaceBody, response: "Race", audit: "race" },
+  { method: "POST", path: "/races/bulk", router: "races", access: "admin", operationId: "createRaces", body: body.bulkRacesBody, response: ["Race"], audit: "schedule" },
+  { method: "GET", path: "/races/{raceId}", router: "races", access: "public", operationId: "getRace", response: "Race", version: "race" },
+  { method: "DELETE", path: "/races/{raceId}", router: "races", access: "admin", operationId: "deleteRace", response: "Ok", audit: "race", version: "race" },
+  { method: "PATCH", path: "/races/{raceId}", router: "races", access: "admin", operationId: "updateRace", body: body.updateRaceBody, response: "Race", audit: "race", version: "race" },
+  { method: "POST", path: "/races/{raceId}/restore", router: "races", access: "admin", operationId: "restoreRace", response: "Race", audit: "race", version: "race" },
+  { method: "DELETE", path: "/races/{raceId}/purge", router: "races", access: "admin", operationId: "purgeRace", response: "Ok", audit: "race" },
+  { method: "POST", path: "/races/{raceId}/postpone", router: "races", access: "admin", operationId: "postponeRace", body: body.postponeRaceBody, response: "Race", audit: "race", version: "race", idempotent: true },
+  { method: "POST", path: "/races/{raceId}/status", router: "races", access: "admin", operationId: "setRaceStatus", body: body.raceStatusBody, response: "Race", audit: "race", version: "race" },
+  { method: "POST", path: "/races/roster-counts", router: "roster", access: "public", operationId: "getRosterCounts", body: body.rosterCountsBody, response: "RosterCounts" },
+
+  { method: "GET", path: "/races/{raceId}/roster/{teamId}", router: "roster", access: "public", operationId: "getRoster", response: ["RosterEntry"], version: "roster" },
+  { method: "POST", path: "/races/{raceId}/roster/{teamId}/add", router: "roster", access: "teamCoach", operationId: "addToRoster", body: body.rosterAddBody, response: ["RosterEntry"], audit: "roster", version: "roster", idempotent: true },
+  { method: "PATCH", path: "/races/{raceId}/roster/{teamId}/entry/{racerId}", router: "roster", access: "teamCoach", operationId: "updateRosterEntry", body: body.rosterEntryBody, response: ["RosterEntry"], audit: "roster", version: "roster" },
+  { method: "POST", path: "/races/{raceId}/roster/{teamId}/move", router: "roster", access: "teamCoach", operationId: "moveRosterEntry", body: body.rosterMoveBody, response: ["RosterEntry"], audit: "roster", version: "roster" },
+  { method: "DELETE", path: "/races/{raceId}/roster/{teamId}/entry/{racerId}", router: "roster", access: "teamCoach", operationId: "removeRosterEntry", response: ["RosterEntry"], audit: "roster", version: "roster" },
+  { method: "POST", path: "/races/{raceId}/roster/{teamId}/copy", router: "roster", access: "teamCoach", operationId: "copyRoster", body: body.copyFromRaceBody, response: ["RosterEntry"], audit: "roster", version: "roster", idempotent: true },
+
+  { method: "POST", path: "/races/{raceId}/start-list/generate", router: "startlist", access: "admin", operationId: "generateStartList", body: body.generateStartListBody, response: "StartList", audit: "startList", version: "startList", idempotent: true },
+  { method: "POST", path: "/races/{raceId}/start-list/copy", router: "startlist", access: "admin", operationId: "copyStartList", body: body.copyFromRaceBody, response: "StartList", audit: "startList", version: "startList", idempotent: true },
+  { method: "POST", path: "/races/{raceId}/start-list/entry", router: "startlist", access: "admin", operationId: "addStartListEntry", body: body.startListEntryBody, response: "StartListEntry", audit: "startList", version: "startList" },
+  { method: "GET", path: "/races/{raceId}/start-list", router: "startlist", access: "public", operationId: "getStartList", response: "StartList", version: "startList" },
+  { method: "GET", path: "/races/{raceId}/start-list/excluded", router: "startlist", access: "public", operationId: "getExcludedBibs", response: "BibList", version: "startList" },
+  { method: "POST", path: "/races/{raceId}/start-list/excluded", router: "startlist", access: "admin", operationId: "setExcludedBibs", body: body.excludedBibsBody, response: "BibList", audit: "startList", version: "startList" },
+  { method: "PATCH", path: "/races/{raceId}/start-list/bib", router: "startlist", access: "admin", operationId: "updateStartListBib", body: body.startListEntryBody, response: "StartListEntry", audit: "startList", version: "startList" },
+
+  { method: "GET", path: "/races/{raceId}/results", router: "results", access: "public", operationId: "getResults", response: "RaceResults" },
+  { method: "POST", path: "/races/{raceId}/results", router: "results", access: "admin", operationId: "importResults", body: body.resultsImportBody, response: "RaceResults", audit: "results", idempotent: true },
+  { method: "POST", path: "/races/{raceId}/results/recalc", router: "results", access: "admin", operationId: "recalcResults", response: "RaceResults", audit: "results" },
+
+  { method: "GET", path: "/races/{raceId}/audit", router: "audit", access: "admin", operationId: "getRaceAudit", query: auditQuery, response: ["AuditEntry"] },
+  { method: "GET", path: "/teams/{teamId}/audit", router: "audit", access: "teamCoach", operationId: "getTeamAudit", query: auditQuery, response: ["AuditEntry"] },
+
+  { method: "GET", path: "/openapi.json", router: "openapi", access: "public", operationId: "getOpenApi" },
+];
+
+type CompiledPath = { path: string; segments: string[]; literalCount: number };
+
+function compile(path: string): CompiledPath {
+  const segments = path.split("/").filter(Boolean);
+  return { path, segments, literalCount: segments.filter(s => !s.startsWith("{")).length };
+}
+
+function extractParams(compiled: CompiledPath, parts: string[]): Record<string, string> | null {
+  if (compiled.segments.length !== parts.length) return null;
+  const params: Record<string, string> = {};
+  for (let i = 0; i < parts.length; i++) {
+    const seg = compiled.segments[i];
+    if (seg.startsWith("{")) params[seg.slice(1, -1)] = decodeURIComponent(parts[i]);
+    else if (seg !== parts[i]) return null;
+  }
+  return params;
+}
+
+const compiledPaths = new Map<string, CompiledPath>();
+for (const r of ROUTES) {
+  if (!compiledPaths.has(r.path)) compiledPaths.set(r.path, compile(r.path));
+}
+
+export type RouteMatch =
+  | { kind: "match"; route: RouteDef; params: Record<string, string> }
+  | { kind: "methodNotAllowed"; allowed: HttpVerb[] }
+  | { kind: "notFound" };
+
+export function matchRoute(method: string, rawPath: string): RouteMatch {
+  const parts = rawPath.split("/").filter(Boolean);
+  const verb = method.toUpperCase();
+  const candidates: { route: RouteDef; params: Record<string, string>; literalCount: number }[] = [];
+  for (const route of ROUTES) {
+    const compiled = compiledPaths.get(route.path)!;
+    const params = extractParams(compiled, parts);
+    if (params) candidates.push({ route, params, literalCount: compiled.literalCount });
+  }
+  if (!candidates.length) return { kind: "notFound" };
+
+  // Literal segments win over placeholders, e.g. /races/roster-counts over /races/{raceId}.
+  const forMethod = candidates
+    .filter(c => c.route.method === verb)
+    .sort((a, b) => b.literalCount - a.literalCount);
+  if (forMethod.length) return { kind: "match", route: forMethod[0].route, params: forMethod[0].params };
+
+  const allowed = Array.from(new Set(candidates.map(c => c.route.method)));
+  return { kind: "methodNotAllowed", allowed };
+}
+
+// path -> methods, for registering API Gateway routes.
+export function routesByPath(): Map<string, HttpVerb[]> {
+  const byPath = new Map<string, HttpVerb[]>();
+  for (const r of ROUTES) {
+    byPath.set(r.path, [...(byPath.get(r.path) ?? []), r.method]);
+  }
+  return byPath;
+}
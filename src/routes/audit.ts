@@ -0,0 +1,23 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
+import { NotFoundError } from "../errors";
+import { repos } from "../repos";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+export const auditRouter = async (e: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  const params = e.pathParameters ?? {};
+  const requested = Number(e.queryStringParameters?.limit);
+  const limit = Number.isInteger(requested) && requested > 0 ? Math.min(requested, MAX_LIMIT) : DEFAULT_LIMIT;
+
+  if (params["raceId"]) {
+    const entries = await repos().audit.listByRace(params["raceId"], limit);
+    return { statusCode: 200, body: JSON.stringify(entries) };
+  }
+  if (params["teamId"]) {
+    const entries = await repos().audit.listByTeam(params["teamId"], limit);
+    return { statusCode: 200, body: JSON.stringify(entries) };
+  }
+
+  throw new NotFoundError();
+};
@@ -0,0 +1,128 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
+import { NotFoundError } from "../errors";
+import { raceStatus } from "../raceStatus";
+import { Course, Race, repos, Venue } from "../repos";
+
+const STILL_OPEN = ["draft", "rosters_open"];
+
+// RFC 5545 text: backslash-escape the separators and fold lines at 75 octets.
+function escapeText(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function fold(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let start = 0;
+  while (start < bytes.length) {
+    let end = Math.min(start + (start === 0 ? 75 : 74), bytes.length);
+    // Don't split a multi-byte character.
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--;
+    parts.push(bytes.subarray(start, end).toString("utf8"));
+    start = end;
+  }
+  return parts.join("\r\n ");
+}
+
+function icsDate(date: string) {
+  return date.replace(/-/g, "");
+}
+
+function nextDay(date: string) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+// "Middle Fork: 350 m vertical, 1200 m long, homologation 11423/12/16"
+function describeCourse(course: Course) {
+  const facts = [
+    course.verticalDropM !== undefined ? `${course.verticalDropM} m vertical` : "",
+    course.lengthM !== undefined ? `${course.lengthM} m long` : "",
+    course.homologation ? `homologation ${course.homologation}` : "",
+  ].filter(Boolean);
+  return facts.length ? `${course.name}: ${facts.join(", ")}` : course.name;
+}
+
+// All-day events keyed by raceId, so calendar apps update the same event when a race moves.
+// SEQUENCE follows the race's version, which every PATCH bumps. A race postponed to a make-up race
+// stays on the calendar as cancelled, next to the make-up.
+function renderEvent(race: Race, venues: Map<string, Venue>, makeUp: Race | null, stamp: string): string[] {
+  const venue = race.venueId ? venues.get(race.venueId) : undefined;
+  const course = venue?.courses.find(c => c.courseId === race.courseId);
+  const location = venue?.address ? `${race.location}, ${venue.address}` : race.location;
+  const description = [
+    race.type,
+    ...(course ? [describeCourse(course)] : []),
+    ...(race.postponedTo ? [`Postponed${makeUp ? ` to ${makeUp.date}` : ""}`] : []),
+  ].join("\n");
+  const status = race.postponedTo ? "CANCELLED" : raceStatus(race) === "draft" ? "TENTATIVE" : "CONFIRMED";
+  return [
+    "BEGIN:VEVENT",
+    `UID:race-${race.raceId}@race-manager`,
+    `DTSTAMP:${stamp}`,
+    `SEQUENCE:${race.version ?? 0}`,
+    `DTSTART;VALUE=DATE:${icsDate(race.date)}`,
+    `DTEND;VALUE=DATE:${icsDate(nextDay(race.date))}`,
+    `SUMMARY:${escapeText(race.name)}`,
+    `LOCATION:${escapeText(location)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `CATEGORIES:${escapeText(race.type)}`,
+    `STATUS:${status}`,
+    "END:VEVENT",
+  ];
+}
+
+async function renderCalendar(name: string, races: Race[]): Promise<string> {
+  const venues = new Map((await repos().venues.list()).map(v => [v.venueId, v]));
+  const makeUps = new Map<string, Race | null>();
+  for (const race of races.filter(r => r.postponedTo)) {
+    makeUps.set(race.raceId, await repos().races.get(race.postponedTo!));
+  }
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Race Manager//Schedule//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...races.flatMap(r => renderEvent(r, venues, makeUps.get(r.raceId) ?? null, stamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+function icsResult(body: string, filename: string): APIGatewayProxyResultV2 {
+  return {
+    statusCode: 200,
+    headers: {
+      "content-type": "text/calendar; charset=utf-8",
+      "content-disposition": `inline; filename="${filename}"`,
+    },
+    body,
+  };
+}
+
+export const calendarRouter = async (e: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  const teamId = e.pathParameters?.["teamId"];
+  const races = (await repos().races.list())
+    .filter(r => !r.archivedAt)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  if (!teamId) {
+    return icsResult(await renderCalendar("Race schedule", races), "races.ics");
+  }
+
+  const team = await repos().teams.get(teamId);
+  if (!team) throw new NotFoundError("Team not found");
+  // The races the team has racers in, plus those whose rosters it can still enter.
+  const teamRaces: Race[] = [];
+  for (const race of races) {
+    if (STILL_OPEN.includes(raceStatus(race)) || (await repos().rosters.count(race.raceId, teamId)) > 0) {
+      teamRaces.push(race);
+    }
+  }
+  return icsResult(await renderCalendar(`${team.name} races`, teamRaces), `${teamId}.ics`);
+};
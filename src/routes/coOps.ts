@@ -0,0 +1,100 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
+import { ConflictError, NotFoundError, ValidationError } from "../errors";
+import { CoOp, repos } from "../repos";
+
+// The season and member teams must exist, and each team races in at most one co-op per season.
+async function checkCoOp(coOp: CoOp) {
+  const fields: { field: string; message: string }[] = [];
+  if (!(await repos().seasons.get(coOp.seasonId))) {
+    fields.push({ field: "seasonId", message: `seasonId ${coOp.seasonId} is not a season` });
+  }
+  if (coOp.teamIds.length < 2) {
+    fields.push({ field: "teamIds", message: "teamIds must name at least two different teams" });
+  }
+  const known = new Set((await repos().teams.getMany(coOp.teamIds)).map(t => t.teamId));
+  coOp.teamIds.forEach((teamId, i) => {
+    if (!known.has(teamId)) fields.push({ field: `teamIds[${i}]`, message: `teamIds[${i}] ${teamId} is not a team` });
+  });
+  if (fields.length) throw new ValidationError("Request body is invalid", { fields });
+
+  const taken = (await repos().coOps.listBySeason(coOp.seasonId))
+    .filter(other => other.coOpId !== coOp.coOpId)
+    .flatMap(other => other.teamIds.filter(id => coOp.teamIds.includes(id)).map(teamId => ({ teamId, coOpId: other.coOpId })));
+  if (taken.length) {
+    throw new ConflictError("A team can only be in one co-op per season", { teams: taken });
+  }
+}
+
+function cleanTeamIds(teamIds: string[]) {
+  return Array.from(new Set(teamIds.map(id => id.trim())));
+}
+
+export const coOpsRouter = async (e: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  const method = e.requestContext.http.method;
+  const coOpId = e.pathParameters?.["coOpId"];
+
+  if (method === "GET" && !coOpId) {
+    // Optional filter: /co-ops?seasonId=...
+    const seasonId = e.queryStringParameters?.seasonId;
+    const coOps = seasonId ? await repos().coOps.listBySeason(seasonId) : await repos().coOps.list();
+    coOps.sort((a, b) => a.name.localeCompare(b.name));
+    return { statusCode: 200, body: JSON.stringify(coOps) };
+  }
+
+  if (method === "POST" && !coOpId) {
+    // Field types are checked against createCoOpBody before we get here.
+    const { coOpId: providedId, seasonId, name, teamIds } = JSON.parse(e.body || "{}") as {
+      coOpId?: string;
+      seasonId: string;
+      name: string;
+      teamIds: string[];
+    };
+    const { nanoid } = await import("nanoid");
+    const coOp: CoOp = {
+      coOpId: providedId?.trim() || nanoid(10),
+      seasonId: seasonId.trim(),
+      name: name.trim(),
+      teamIds: cleanTeamIds(teamIds),
+    };
+    // Team scores carry a co-op under its coOpId, in place of a teamId.
+    if (await repos().teams.get(coOp.coOpId)) {
+      throw new ConflictError(`${coOp.coOpId} is already a teamId`);
+    }
+    await checkCoOp(coOp);
+    await repos().coOps.create(coOp);
+    return { statusCode: 200, body: JSON.stringify(coOp) };
+  }
+
+  if (!coOpId) throw new NotFoundError();
+  const existing = await repos().coOps.get(coOpId);
+  if (!existing) throw new NotFoundError("Co-op not found");
+
+  if (method === "GET") {
+    return { statusCode: 200, body: JSON.stringify(existing) };
+  }
+
+  if (method === "PATCH") {
+    const { seasonId, name, teamIds } = JSON.parse(e.body || "{}") as Partial<Omit<CoOp, "coOpId">>;
+    const patch = {
+      seasonId: seasonId?.trim(),
+      name: name?.trim(),
+      teamIds: teamIds ? cleanTeamIds(teamIds) : undefined,
+    };
+    await checkCoOp({
+      ...existing,
+      ...(patch.seasonId ? { seasonId: patch.seasonId } : {}),
+      ...(patch.teamIds ? { teamIds: patch.teamIds } : {}),
+    });
+    const updated = await repos().coOps.update(coOpId, patch);
+    if (!updated) throw new NotFoundError("Co-op not found");
+    return { statusCode: 200, body: JSON.stringify(updated) };
+  }
+
+  // Start lists and results already made keep the co-op's name; regenerate or recalculate to drop it.
+  if (method === "DELETE") {
+    await repos().coOps.delete(coOpId);
+    return { statusCode: 200, body: JSON.stringify({ ok: true }) };
+  }
+
+  throw new NotFoundError();
+};
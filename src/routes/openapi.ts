@@ -0,0 +1,9 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
+import { buildOpenApiDocument } from "../openapi";
+
+let document: string | undefined;
+
+export const openapiRouter = async (_e: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  document ??= JSON.stringify(buildOpenApiDocument());
+  return { statusCode: 200, body: document };
+};
@@ -0,0 +1,76 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
+import { NotFoundError, ValidationError } from "../errors";
+import { RaceTemplate, repos } from "../repos";
+import { placeAtVenue } from "../venues";
+
+export const raceTemplatesRouter = async (e: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  const method = e.requestContext.http.method;
+  const templateId = e.pathParameters?.["templateId"];
+
+  if (method === "GET" && !templateId) {
+    const templates = (await repos().raceTemplates.list()).sort((a, b) => a.name.localeCompare(b.name));
+    return { statusCode: 200, body: JSON.stringify(templates) };
+  }
+
+  if (method === "POST" && !templateId) {
+    // Field types and the race type are checked against createRaceTemplateBody before we get here.
+    const body = JSON.parse(e.body || "{}") as Omit<RaceTemplate, "templateId"> & { templateId?: string };
+    const { input, errors } = await placeAtVenue(body);
+    if (errors.length) throw new ValidationError("Request body is invalid", { fields: errors });
+    const { templateId: providedId, name, location, venueId, courseId, type, runs, independent, autoGenerateStartList } = input;
+    const { nanoid } = await import("nanoid");
+    const template: RaceTemplate = {
+      templateId: providedId?.trim() || nanoid(10),
+      name: name.trim(),
+      location: location.trim(),
+      ...(venueId ? { venueId } : {}),
+      ...(courseId ? { courseId } : {}),
+      type,
+      ...(runs ? { runs } : {}),
+      ...(independent !== undefined ? { independent } : {}),
+      ...(autoGenerateStartList !== undefined ? { autoGenerateStartList } : {}),
+    };
+    await repos().raceTemplates.create(template);
+    return { statusCode: 200, body: JSON.stringify(template) };
+  }
+
+  if (!templateId) throw new NotFoundError();
+  const existing = await repos().raceTemplates.get(templateId);
+  if (!existing) throw new NotFoundError("Race template not found");
+
+  if (method === "GET") {
+    return { statusCode: 200, body: JSON.stringify(existing) };
+  }
+
+  if (method === "PATCH") {
+    const { name, location, venueId, courseId, type, runs, independent, autoGenerateStartList } = JSON.parse(e.body || "{}") as Partial<RaceTemplate>;
+    if (venueId !== undefined || courseId !== undefined) {
+      const { errors } = await placeAtVenue({
+        venueId: venueId ?? existing.venueId,
+        courseId: courseId ?? existing.courseId,
+        location: location ?? existing.location,
+      });
+      if (errors.length) throw new ValidationError("Request body is invalid", { fields: errors });
+    }
+    const updated = await repos().raceTemplates.update(templateId, {
+      name: name?.trim(),
+      location: location?.trim(),
+      venueId,
+      courseId,
+      type,
+      runs,
+      independent,
+      autoGenerateStartList,
+    });
+    if (!updated) throw new NotFoundError("Race template not found");
+    return { statusCode: 200, body: JSON.stringify(updated) };
+  }
+
+  // Races made from a template don't point back at it, so deleting one is always safe.
+  if (method === "DELETE") {
+    await repos().raceTemplates.delete(templateId);
+    return { statusCode: 200, body: JSON.stringify({ ok: true }) };
+  }
+
+  throw new NotFoundError();
+};
@@ -1,27 +1,67 @@
 import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
-import { DynamoDBDocumentClient, PutCommand, UpdateCommand, DeleteCommand, QueryCommand, GetCommand } from "@aws-sdk/lib-dynamodb";
+import { getAuthUser } from "../auth";
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from "../errors";
+import { Racer, repos } from "../repos";
+import { FieldError } from "../validation";
 //import { nanoid } from "nanoid";
 
+type RacerInput = Partial<Omit<Racer, "racerId" | "teamId">> & { grade?: number };
+type Profile = Omit<Racer, "racerId" | "teamId" | "gender" | "class">;
 
-const ddb = DynamoDBDocumentClient.from(new DynamoDBClient({}));
-const TEAMS = process.env.TEAMS_TABLE!;
-const RACERS = process.env.RACERS_TABLE!;
-const ROSTERS = process.env.ROSTERS_TABLE!;
+// "E6543210" (U.S. Ski & Snowboard) or "6543210" (FIS), once spaces and dashes are dropped.
+const LICENSE_RE = /^[A-Z]?\d{4,8}$/;
 
-// Convenience: return the team + racers (to satisfy current UI expectations)
-async function loadTeamWithRacers(teamId: string) {
-  const t = await ddb.send(new GetCommand({ TableName: TEAMS, Key: { teamId } }));
-  if (!t.Item) return null;
-  const r = await ddb.send(
-    new QueryCommand({
-      TableName: RACERS,
-      IndexName: "byTeam",
-      KeyConditionExpression: "teamId = :t",
-      ExpressionAttributeValues: { ":t": teamId },
-    })
-  );
-  return { ...t.Item, racers: r.Items ?? [] };
+// School years end in June, so a 12th grader in 2026-27 graduates in 2027.
+function gradYearFor(grade: number, now = new Date()) {
+  const schoolYearEnd = now.getUTCMonth() >= 6 ? now.getUTCFullYear() + 1 : now.getUTCFullYear();
+  return schoolYearEnd + 12 - grade;
+}
+
+function nameKey(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// The name and profile fields to store, merged over `existing` for a PATCH; every problem is
+// reported at once, like the body validation.
+function profileOf(input: RacerInput, existing?: Racer): Partial<Profile> {
+  const fields: FieldError[] = [];
+  const firstName = input.firstName?.trim();
+  const lastName = input.lastName?.trim();
+  const first = firstName ?? existing?.firstName;
+  const last = lastName ?? existing?.lastName;
+  const renamed = firstName !== undefined || lastName !== undefined;
+  const name = input.name?.trim() || (first && last && (renamed || !existing) ? `${first} ${last}` : undefined);
+  if (!existing && !name) fields.push({ field: "name", message: "name, or firstName and lastName, is required" });
+
+  const fromGrade = input.grade !== undefined ? gradYearFor(input.grade) : undefined;
+  if (fromGrade !== undefined && input.gradYear !== undefined && fromGrade !== input.gradYear) {
+    fields.push({ field: "grade", message: `grade ${input.grade} graduates in ${fromGrade}, not gradYear ${input.gradYear}` });
+  }
+  const gradYear = input.gradYear ?? fromGrade;
+  const birthYear = input.birthYear;
+  if (birthYear !== undefined && birthYear > new Date().getUTCFullYear()) {
+    fields.push({ field: "birthYear", message: "birthYear must not be in the future" });
+  }
+  const born = birthYear ?? existing?.birthYear;
+  const graduates = gradYear ?? existing?.gradYear;
+  if (born !== undefined && graduates !== undefined && (graduates - born < 14 || graduates - born > 21)) {
+    fields.push({ field: "gradYear", message: `gradYear ${graduates} doesn't fit birthYear ${born}` });
+  }
+
+  const license = input.license?.toUpperCase().replace(/[\s-]/g, "");
+  if (license !== undefined && !LICENSE_RE.test(license)) {
+    fields.push({ field: "license", message: "license must be a U.S. Ski & Snowboard number (E1234567) or a FIS code" });
+  }
+  if (fields.length) throw new ValidationError("Request body is invalid", { fields });
+
+  return { name, firstName, lastName, birthYear, gradYear, license };
+}
+
+// Results and timing files are matched on names, so two racers on a team can't share one.
+async function checkUniqueName(teamId: string, name: string, racerId?: string) {
+  const clash = (await repos().racers.listByTeam(teamId))
+    .find(r => r.racerId !== racerId && nameKey(r.name) === nameKey(name));
+  if (clash) throw new ConflictError(`${clash.name} is already on this team`, { racerId: clash.racerId });
 }
 
 export const racersRouter = async (e: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
@@ -32,52 +72,59 @@ export const racersRouter = async (e: APIGatewayProxyEventV2): Promise<APIGatewa
   const body = e.body ? JSON.parse(e.body) : null;
 
   if (method === "POST" && e.rawPath.endsWith(`/teams/${teamId}/racers`)) {
-    const { name, gender, class: racerClass } = body ?? {};
+    // Field types and enums are checked against createRacerBody before we get here.
+    const input = (body ?? {}) as RacerInput;
+    const { name, firstName, lastName, birthYear, gradYear, license } = profileOf(input);
+    await checkUniqueName(teamId, name!);
     const { nanoid } = await import("nanoid"); // ok in CJS build
     const id = nanoid(10);
-    var racer = { racerId: id, teamId, name, gender, class: racerClass };
-    await ddb.send(new PutCommand({
-      TableName: RACERS,
-      Item: racer,
-    }));
-    //const team = await loadTeamWithRacers(teamId);
+    const racer: Racer = {
+      racerId: id,
+      teamId,
+      name: name!,
+      ...(firstName ? { firstName } : {}),
+      ...(lastName ? { lastName } : {}),
+      gender: input.gender!,
+      class: input.class!,
+      ...(birthYear !== undefined ? { birthYear } : {}),
+      ...(gradYear !== undefined ? { gradYear } : {}),
+      ...(license ? { license } : {}),
+    };
+    await repos().racers.put(racer);
     return { statusCode: 200, body: JSON.stringify(racer )};
   }
 
-  if (method === "PATCH" && racerId) {
-    const { name, gender, class: racerClass } = body ?? {};
-    const expr: string[] = [];
-    const names: Record<string, string> = {};
-    const values: Record<string, any> = {};
-    if (name !== undefined) { expr.push("#n = :n"); names["#n"] = "name"; values[":n"] = name; }
-    if (gender !== undefined) { expr.push("#g = :g"); names["#g"] = "gender"; values[":g"] = gender; }
-    if (racerClass !== undefined) { expr.push("#c = :c"); names["#c"] = "class"; values[":c"] = racerClass; }
+  // The route only authorizes {teamId}; make sure the racer actually belongs to it.
+  const existing = racerId ? await repos().racers.get(racerId) : null;
+  if ((method === "PATCH" || method === "DELETE") && racerId) {
+    if (!existing || existing.teamId !== teamId) throw new NotFoundError("Racer not found on this team");
+  }
 
-    if (expr.length) {
-      await ddb.send(new UpdateCommand({
-        TableName: RACERS,
-        Key: { racerId },
-        UpdateExpression: "SET " + expr.join(", "),
-        ExpressionAttributeNames: names,
-        ExpressionAttributeValues: values,
-      }));
+  if (method === "PATCH" && racerId && existing) {
+    const input = (body ?? {}) as RacerInput;
+    // Rosters take gender and class from here; a coach moving their own Provisional racer up to
+    // Varsity would get around the locked classes and caps.
+    const reclassified = (input.gender !== undefined && input.gender !== existing.gender)
+      || (input.class !== undefined && input.class !== existing.class);
+    if (reclassified && (await getAuthUser(e))?.role !== "ADMIN") {
+      throw new ForbiddenError("Only an admin can change a racer's gender or class");
     }
-    var updatedRacer = { racerId: racerId, teamId, name, gender, class: racerClass };
-    //const team = await loadTeamWithRacers(teamId);
+    const profile = profileOf(input, existing);
+    if (profile.name) await checkUniqueName(teamId, profile.name, racerId);
+    // Fields may be partial (updateRacerBody), so answer with the stored racer.
+    const updatedRacer = await repos().racers.update(racerId, { ...profile, gender: input.gender, class: input.class });
     return { statusCode: 200, body: JSON.stringify(updatedRacer )};
   }
 
   if (method === "DELETE" && racerId) {
     // Remove from racers
-    await ddb.send(new DeleteCommand({ TableName: RACERS, Key: { racerId } }));
+    await repos().racers.delete(racerId);
     // Also remove from all rosters for this team (best-effort)
     // Query all race/team roster items containing this racerId
     // (We don't know all raceIds here; in a real app you'd keep a GSI or do a scan with filter. For now, best-effort leave as-is or add a TODO.)
     // TODO: add a GSI on ROSTERS for racerId to delete across races quickly.
-
-    //const team = await loadTeamWithRacers(teamId);
     return { statusCode: 200, body: "" };
   }
 
-  return { statusCode: 404, body: JSON.stringify({ error: "Racer Router, Not found - " + method + " " + e.rawPath } )};
+  throw new NotFoundError(`Racer Router, Not found - ${method} ${e.rawPath}`);
 };
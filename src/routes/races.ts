@@ -1,16 +1,42 @@
 import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
-import { DynamoDBDocumentClient, ScanCommand, GetCommand, UpdateCommand, PutCommand, DeleteCommand, QueryCommand } from "@aws-sdk/lib-dynamodb";
-
-const ddb = DynamoDBDocumentClient.from(new DynamoDBClient({}));
-const RACES = process.env.RACES_TABLE!;
-const TEAMS = process.env.TEAMS_TABLE!;
-const ROSTERS = process.env.ROSTERS_TABLE!;
-const STARTLISTS = process.env.STARTLISTS_TABLE!;
-const RACE_TYPES = new Set(["Slalom", "Giant Slalom"]);
-
-function normalizeRace<T extends Record<string, any>>(raw: T): T & { locked: boolean; independent: boolean } {
-  return { ...raw, locked: Boolean(raw.locked), independent: Boolean((raw as any).independent) };
+import { ConflictError, NotFoundError, PreconditionFailedError, ValidationError } from "../errors";
+import { raceRuns } from "../raceFormat";
+import {
+  raceStatus,
+  requireNotArchived,
+  requireNotPostponed,
+  requireRaceStatus,
+  rosterDeadlinePassed,
+  transition,
+} from "../raceStatus";
+import { Race, RacePatch, RaceStatus, RaceTemplate, repos } from "../repos";
+import { createRaceBody } from "../schemas";
+import { currentSeason, seasonForDate } from "../seasons";
+import { FieldError, validate } from "../validation";
+import { placeAtVenue } from "../venues";
+
+type RaceInput = {
+  raceId?: string;
+  seasonId?: string;
+  name: string;
+  location: string;
+  venueId?: string;
+  courseId?: string;
+  date: string;
+  type: string;
+  runs?: number;
+  independent?: boolean;
+  rosterDeadline?: string;
+  autoGenerateStartList?: boolean;
+};
+
+// The fields a PATCH may set to null to remove them from the race.
+const CLEARABLE_RACE_FIELDS = ["rosterDeadline", "venueId", "courseId"];
+
+// `locked` is kept for older clients: true whenever coaches can't edit rosters.
+export function normalizeRace(raw: Race) {
+  const status = raceStatus(raw);
+  return { ...raw, status, runs: raceRuns(raw), locked: status !== "rosters_open" || rosterDeadlinePassed(raw), independent: Boolean(raw.independent) };
 }
 
 function getRaceId(e: APIGatewayProxyEventV2): string | undefined {
@@ -34,51 +60,132 @@ function getRaceId(e: APIGatewayProxyEventV2): string | undefined {
     return undefined;
 }
 
-function rosterPk(raceId: string, teamId: string) {
-  return `ROSTER#${raceId}#${teamId}`;
+// Stored in UTC so the lock job can compare deadlines as strings.
+function toUtc(dateTime: string) {
+  return new Date(dateTime).toISOString();
+}
+
+// An explicit seasonId must exist; without one the race joins the season its date falls in.
+async function resolveSeasonId(seasonId: string | undefined, date: string): Promise<string | undefined> {
+  if (seasonId !== undefined) {
+    if (!(await repos().seasons.get(seasonId))) throw new NotFoundError("Season not found");
+    return seasonId;
+  }
+  return seasonForDate(await repos().seasons.list(), date)?.seasonId;
+}
+
+// A new date moves the race to the season it now falls in, unless it still fits its own. null when
+// no season covers the date, so the race leaves the one it was in.
+async function seasonAfterMove(race: Race, date: string): Promise<string | null> {
+  const seasons = await repos().seasons.list();
+  const own = seasons.find(s => s.seasonId === race.seasonId);
+  if (own && seasonForDate([own], date)) return own.seasonId;
+  return seasonForDate(seasons, date)?.seasonId ?? null;
 }
 
-async function deleteStartList(raceId: string) {
-  let lastKey: Record<string, any> | undefined = undefined;
-  do {
-    const res = await ddb.send(new QueryCommand({
-      TableName: STARTLISTS,
-      KeyConditionExpression: "raceId = :r",
-      ExpressionAttributeValues: { ":r": raceId },
-      ExclusiveStartKey: lastKey,
-    }));
-    const items = res.Items ?? [];
-    for (const item of items) {
-      await ddb.send(new DeleteCommand({
-        TableName: STARTLISTS,
-        Key: { raceId, bib: item.bib },
-      }));
+// Keeps a roster deadline as far ahead of the race as it was.
+function shiftDeadline(deadline: string | undefined, fromDate: string, toDate: string) {
+  if (!deadline) return undefined;
+  return new Date(Date.parse(deadline) + Date.parse(toDate) - Date.parse(fromDate)).toISOString();
+}
+
+// Gives the make-up race the original's rosters and start list as they stand.
+async function carryForward(fromRaceId: string, toRaceId: string) {
+  for (const team of await repos().teams.list()) {
+    for (const entry of await repos().rosters.list(fromRaceId, team.teamId)) {
+      await repos().rosters.put({ ...entry, raceId: toRaceId });
     }
-    lastKey = res.LastEvaluatedKey as Record<string, any> | undefined;
-  } while (lastKey);
+  }
+  const settings = await repos().startLists.getSettings(fromRaceId);
+  if (settings) await repos().startLists.putSettings(toRaceId, settings);
+  for (const entry of (await repos().startLists.get(fromRaceId)).entries) {
+    await repos().startLists.putEntry({ ...entry, raceId: toRaceId });
+  }
 }
 
-async function deleteRosters(raceId: string) {
-  const teams = await ddb.send(new ScanCommand({ TableName: TEAMS, ProjectionExpression: "teamId" }));
-  const teamIds = (teams.Items ?? []).map(t => String(t.teamId)).filter(Boolean);
-  for (const teamId of teamIds) {
-    let lastKey: Record<string, any> | undefined = undefined;
-    do {
-      const res = await ddb.send(new QueryCommand({
-        TableName: ROSTERS,
-        KeyConditionExpression: "pk = :pk",
-        ExpressionAttributeValues: { ":pk": rosterPk(raceId, teamId) },
-        ExclusiveStartKey: lastKey,
-      }));
-      const items = res.Items ?? [];
-      for (const item of items) {
-        await ddb.send(new DeleteCommand({
-          TableName: ROSTERS,
-          Key: { pk: item.pk, sk: item.sk },
-        }));
-      }
-      lastKey = res.LastEvaluatedKey as Record<string, any> | undefined;
-    } while (lastKey);
+// A new draft race from a create body (already checked against createRaceBody and placeAtVenue).
+async function newRace(input: RaceInput): Promise<Race> {
+  const { raceId: providedId, seasonId, name, location, venueId, courseId, date, type, runs, independent, rosterDeadline, autoGenerateStartList } = input;
+  const { nanoid } = await import("nanoid");
+  const newRaceId = (typeof providedId === "string" && providedId.trim()) ? providedId.trim() : nanoid(10);
+
+  const resolvedSeasonId = await resolveSeasonId(seasonId, date);
+  return {
+    raceId: newRaceId,
+    ...(resolvedSeasonId ? { seasonId: resolvedSeasonId } : {}),
+    name: name.trim(),
+    location: location.trim(),
+    ...(venueId ? { venueId } : {}),
+    ...(courseId ? { courseId } : {}),
+    date,
+    type,
+    ...(runs ? { runs } : {}),
+    status: "draft",
+    statusChangedAt: { draft: new Date().toISOString() },
+    independent: Boolean(independent),
+    ...(rosterDeadline ? { rosterDeadline: toUtc(rosterDeadline) } : {}),
+    ...(autoGenerateStartList !== undefined ? { autoGenerateStartList } : {}),
+  };
+}
+
+// Fills each row in from its template and checks it like POST /races would, collecting the
+// problems of every row instead of stopping at the first.
+async function checkScheduleRows(rows: (Partial<RaceInput> & { templateId?: string })[]) {
+  const templates = new Map<string, RaceTemplate>();
+  for (const templateId of new Set(rows.map(r => r.templateId).filter((id): id is string => !!id))) {
+    const template = await repos().raceTemplates.get(templateId);
+    if (template) templates.set(templateId, template);
+  }
+  const seasonIds = new Set((await repos().seasons.list()).map(s => s.seasonId));
+  const seenRaceIds = new Set<string>();
+
+  const inputs: RaceInput[] = [];
+  const errors: FieldError[] = [];
+  let invalidRows = 0;
+  for (const [i, { templateId, ...row }] of rows.entries()) {
+    const prefix = `races[${i}]`;
+    const template = templateId ? templates.get(templateId) : undefined;
+    const rowErrors: FieldError[] = [];
+    if (templateId && !template) {
+      rowErrors.push({ field: `${prefix}.templateId`, message: `${prefix}.templateId ${templateId} is not a race template` });
+    }
+    const { templateId: _, ...defaults } = template ?? ({} as Partial<RaceTemplate>);
+    const filled = { ...defaults, ...row };
+    rowErrors.push(...validate(createRaceBody, filled, prefix));
+    const { input, errors: venueErrors } = await placeAtVenue(filled, prefix);
+    rowErrors.push(...venueErrors);
+    if (input.seasonId !== undefined && !seasonIds.has(input.seasonId)) {
+      rowErrors.push({ field: `${prefix}.seasonId`, message: `${prefix}.seasonId ${input.seasonId} is not a season` });
+    }
+    const raceId = input.raceId?.trim();
+    if (raceId && (seenRaceIds.has(raceId) || (await repos().races.get(raceId)))) {
+      rowErrors.push({ field: `${prefix}.raceId`, message: `${prefix}.raceId ${raceId} is already taken` });
+    }
+    if (raceId) seenRaceIds.add(raceId);
+    errors.push(...rowErrors);
+    if (rowErrors.length) invalidRows++;
+    else inputs.push(input as RaceInput);
+  }
+  return { inputs, errors, invalidRows };
+}
+
+// Drops the make-up link from the race at its other end. Purging a make-up returns the original to
+// service; without this it would point at a race that no longer exists and stay locked for good.
+async function unlinkMakeUp(race: Race) {
+  const otherId = race.makeUpFor ?? race.postponedTo;
+  const other = otherId ? await repos().races.get(otherId) : null;
+  if (!other) return;
+  // A race write like any other, so it takes the next version.
+  if (!(await repos().races.claimVersion(other.raceId, other.version ?? 0))) {
+    throw new PreconditionFailedError(`Race ${other.raceId} was changed meanwhile; try again`);
+  }
+  await repos().races.update(other.raceId, race.makeUpFor ? { postponedTo: null } : { makeUpFor: null });
+}
+
+async function purgeRosters(raceId: string) {
+  const teams = await repos().teams.list();
+  for (const team of teams) {
+    await repos().rosters.purge(raceId, team.teamId);
   }
 }
 
@@ -86,153 +193,233 @@ export const racesRouter = async (e: APIGatewayProxyEventV2): Promise<APIGateway
   const method = e.requestContext.http.method;
   const raceId = getRaceId(e);
 
+  // All rows or none: any invalid row fails the request, and a write that fails midway is undone.
+  if (method === "POST" && e.rawPath.endsWith("/races/bulk")) {
+    const { races: rows } = JSON.parse(e.body || "{}") as { races: (Partial<RaceInput> & { templateId?: string })[] };
+    const { inputs, errors, invalidRows } = await checkScheduleRows(rows);
+    if (invalidRows) {
+      throw new ValidationError(`${invalidRows} of ${rows.length} rows are invalid; no races were created`, { fields: errors });
+    }
+
+    const races: Race[] = [];
+    for (const input of inputs) races.push(await newRace(input));
+    const created: string[] = [];
+    try {
+      for (const race of races) {
+        await repos().races.create(race);
+        created.push(race.raceId);
+      }
+    } catch (err) {
+      for (const id of created) await repos().races.delete(id);
+      throw err;
+    }
+    return { statusCode: 200, body: JSON.stringify(races.map(normalizeRace)) };
+  }
+
   if (method === "GET" && !raceId) {
-    const res = await ddb.send(new ScanCommand({ TableName: RACES }));
-    const items = (res.Items ?? [])
-      .map(i => normalizeRace(i as any))
+    // ?seasonId=<id> or ?seasonId=all; by default the current season, or every race before any season exists.
+    const requested = e.queryStringParameters?.seasonId;
+    const seasonId = requested === "all" ? undefined : requested ?? (await currentSeason())?.seasonId;
+    // ?archived=true lists the archived races instead.
+    const archived = e.queryStringParameters?.archived === "true";
+    const races = seasonId ? await repos().races.listBySeason(seasonId) : await repos().races.list();
+    const items = races
+      .filter(r => Boolean(r.archivedAt) === archived)
+      .map(normalizeRace)
       .sort((a, b) => String(a.date).localeCompare(String(b.date)));
     return { statusCode: 200, body: JSON.stringify(items) };
   }
 
   if (method === "POST" && !raceId) {
     const body = JSON.parse(e.body || "{}");
-    const { raceId: providedId, name, location, date, type, independent } = body as {
+    // Field types and enums are checked against createRaceBody before we get here.
+    const { input, errors } = await placeAtVenue(body as RaceInput);
+    if (errors.length) throw new ValidationError("Request body is invalid", { fields: errors });
+    const race = await newRace(input);
+    await repos().races.create(race);
+
+    return { statusCode: 200, body: JSON.stringify(normalizeRace(race)) };
+  }
+
+  // Races with results can't be postponed; a make-up race starts where the original was.
+  if (method === "POST" && raceId && e.rawPath.endsWith("/postpone")) {
+    const { date, mode = "move", raceId: makeUpId, rosterDeadline } = JSON.parse(e.body || "{}") as {
+      date: string;
+      mode?: "move" | "makeUp";
       raceId?: string;
-      name?: string;
-      location?: string;
-      date?: string;
-      type?: string;
-      independent?: boolean;
+      rosterDeadline?: string;
     };
+    const existing = await requireRaceStatus(
+      raceId,
+      ["draft", "rosters_open", "rosters_locked", "start_list_published"],
+      "Postponing",
+    );
+    if (date === existing.date) throw new ValidationError("The race is already on that date", { date });
+    const deadline = rosterDeadline ? toUtc(rosterDeadline) : shiftDeadline(existing.rosterDeadline, existing.date, date);
 
-    if (name === undefined || location === undefined || date === undefined || type === undefined) {
-      return { statusCode: 400, body: JSON.stringify({ error: "name, location, date, and type are required" }) };
-    }
-    if (typeof name !== "string" || !name.trim()) {
-      return { statusCode: 400, body: JSON.stringify({ error: "name must be a non-empty string" }) };
-    }
-    if (typeof location !== "string" || !location.trim()) {
-      return { statusCode: 400, body: JSON.stringify({ error: "location must be a non-empty string" }) };
-    }
-    const validDate = typeof date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(date);
-    if (!validDate) return { statusCode: 400, body: JSON.stringify({ error: "date must be YYYY-MM-DD" }) };
-    if (!RACE_TYPES.has(type)) {
-      return { statusCode: 400, body: JSON.stringify({ error: "type must be Slalom or Giant Slalom" }) };
-    }
-    if (independent !== undefined && typeof independent !== "boolean") {
-      return { statusCode: 400, body: JSON.stringify({ error: "independent must be a boolean" }) };
+    if (mode === "move") {
+      const updated = await repos().races.update(raceId, {
+        date,
+        seasonId: await seasonAfterMove(existing, date),
+        rosterDeadline: deadline,
+        originalDate: existing.originalDate ?? existing.date,
+      });
+      if (!updated) throw new NotFoundError("Race not found");
+      return { statusCode: 200, body: JSON.stringify(normalizeRace(updated)) };
     }
 
     const { nanoid } = await import("nanoid");
-    const newRaceId = (typeof providedId === "string" && providedId.trim()) ? providedId.trim() : nanoid(10);
-
-    await ddb.send(new PutCommand({
-      TableName: RACES,
-      Item: {
-        raceId: newRaceId,
-        name: name.trim(),
-        location: location.trim(),
-        date,
-        type,
-        locked: false,
-        independent: Boolean(independent),
-      },
-      ConditionExpression: "attribute_not_exists(raceId)",
-    }));
-
-    return {
-      statusCode: 200,
-      body: JSON.stringify(normalizeRace({
-        raceId: newRaceId,
-        name: name.trim(),
-        location: location.trim(),
-        date,
-        type,
-        locked: false,
-        independent: Boolean(independent),
-      })),
+    const status = raceStatus(existing);
+    const seasonId = await seasonAfterMove(existing, date);
+    const makeUp: Race = {
+      raceId: makeUpId?.trim() || nanoid(10),
+      ...(seasonId ? { seasonId } : {}),
+      name: existing.name,
+      location: existing.location,
+      ...(existing.venueId ? { venueId: existing.venueId } : {}),
+      ...(existing.courseId ? { courseId: existing.courseId } : {}),
+      date,
+      type: existing.type,
+      ...(existing.runs ? { runs: existing.runs } : {}),
+      status,
+      statusChangedAt: { [status]: new Date().toISOString() },
+      independent: Boolean(existing.independent),
+      ...(deadline ? { rosterDeadline: deadline } : {}),
+      ...(existing.autoGenerateStartList !== undefined ? { autoGenerateStartList: existing.autoGenerateStartList } : {}),
+      makeUpFor: raceId,
     };
+    await repos().races.create(makeUp);
+    try {
+      await carryForward(raceId, makeUp.raceId);
+    } catch (err) {
+      await purgeRosters(makeUp.raceId);
+      await repos().startLists.delete(makeUp.raceId);
+      await repos().races.delete(makeUp.raceId);
+      throw err;
+    }
+    const updated = await repos().races.update(raceId, { postponedTo: makeUp.raceId });
+    if (!updated) throw new NotFoundError("Race not found");
+    return { statusCode: 200, body: JSON.stringify(normalizeRace(updated)) };
+  }
+
+  if (method === "POST" && raceId && e.rawPath.endsWith("/status")) {
+    const { status } = JSON.parse(e.body || "{}") as { status: RaceStatus };
+    const existing = await repos().races.get(raceId);
+    if (!existing) throw new NotFoundError("Race not found");
+    requireNotArchived(existing);
+    requireNotPostponed(existing);
+    const updated = await repos().races.update(raceId, transition(existing, status));
+    if (!updated) throw new NotFoundError("Race not found");
+    return { statusCode: 200, body: JSON.stringify(normalizeRace(updated)) };
   }
 
   if (method === "GET" && raceId) {
-    const res = await ddb.send(new GetCommand({ TableName: RACES, Key: { raceId } }));
-    if (!res.Item) return { statusCode: 404, body: JSON.stringify({ error: "Race not found" }) };
-    return { statusCode: 200, body: JSON.stringify(normalizeRace(res.Item as any) )};
+    const race = await repos().races.get(raceId);
+    if (!race) throw new NotFoundError("Race not found");
+    return { statusCode: 200, body: JSON.stringify(normalizeRace(race) )};
   }
 
-  if (method === "DELETE" && raceId) {
-    const existing = await ddb.send(new GetCommand({ TableName: RACES, Key: { raceId } }));
-    if (!existing.Item) return { statusCode: 404, body: JSON.stringify({ error: "Race not found" }) };
+  if (method === "POST" && raceId && e.rawPath.endsWith("/restore")) {
+    const existing = await repos().races.get(raceId);
+    if (!existing) throw new NotFoundError("Race not found");
+    if (!existing.archivedAt) throw new ConflictError("Race is not archived");
+    const updated = await repos().races.update(raceId, { archivedAt: null });
+    if (!updated) throw new NotFoundError("Race not found");
+    return { statusCode: 200, body: JSON.stringify(normalizeRace(updated)) };
+  }
+
+  // Removes the race and everything hanging off it. Only archived races, so a purge is always two steps.
+  if (method === "DELETE" && raceId && e.rawPath.endsWith("/purge")) {
+    const existing = await repos().races.get(raceId);
+    if (!existing) throw new NotFoundError("Race not found");
+    if (!existing.archivedAt) throw new ConflictError("Archive the race before purging it");
 
-    await deleteRosters(raceId);
-    await deleteStartList(raceId);
-    await ddb.send(new DeleteCommand({ TableName: RACES, Key: { raceId } }));
+    await unlinkMakeUp(existing);
+    await purgeRosters(raceId);
+    await repos().startLists.delete(raceId);
+    await repos().results.delete(raceId);
+    await repos().races.delete(raceId);
 
     return { statusCode: 200, body: JSON.stringify({ ok: true }) };
   }
 
+  // Archives: rosters, start list and results stay until a purge.
+  if (method === "DELETE" && raceId) {
+    const existing = await repos().races.get(raceId);
+    if (!existing) throw new NotFoundError("Race not found");
+    if (!existing.archivedAt) {
+      await repos().races.update(raceId, { archivedAt: new Date().toISOString() });
+    }
+    return { statusCode: 200, body: JSON.stringify({ ok: true }) };
+  }
+
   if (method === "PATCH" && raceId) {
     const body = JSON.parse(e.body || "{}");
-    const { locked, independent, name, location, date, type } = body as {
+    // null clears the roster deadline, venue or course. Validation lets it through everywhere, so
+    // on any other field it means "leave as is" rather than removing the field.
+    for (const key of Object.keys(body)) {
+      if (body[key] === null && !CLEARABLE_RACE_FIELDS.includes(key)) delete body[key];
+    }
+    const { seasonId, locked, independent, name, location, venueId, courseId, date, type, runs, rosterDeadline, autoGenerateStartList } = body as {
+      seasonId?: string;
+      rosterDeadline?: string | null;
+      autoGenerateStartList?: boolean;
       locked?: boolean;
       independent?: boolean;
       name?: string;
       location?: string;
+      venueId?: string | null;
+      courseId?: string | null;
       date?: string;
       type?: string;
+      runs?: number;
     };
-    if ([locked, independent, name, location, date, type].every(v => v === undefined)) {
-      return { statusCode: 400, body: JSON.stringify({ error: "No fields to update" }) };
-    }
-    if (locked !== undefined && typeof locked !== "boolean") {
-      return { statusCode: 400, body: JSON.stringify({ error: "locked must be a boolean" }) };
-    }
-    if (independent !== undefined && typeof independent !== "boolean") {
-      return { statusCode: 400, body: JSON.stringify({ error: "independent must be a boolean" }) };
-    }
-    if (name !== undefined && (typeof name !== "string" || !name.trim())) {
-      return { statusCode: 400, body: JSON.stringify({ error: "name must be a non-empty string" }) };
-    }
-    if (location !== undefined && (typeof location !== "string" || !location.trim())) {
-      return { statusCode: 400, body: JSON.stringify({ error: "location must be a non-empty string" }) };
-    }
-    if (date !== undefined) {
-      const validDate = typeof date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(date);
-      if (!validDate) return { statusCode: 400, body: JSON.stringify({ error: "date must be YYYY-MM-DD" }) };
-    }
-    if (type !== undefined && !RACE_TYPES.has(type)) {
-      return { statusCode: 400, body: JSON.stringify({ error: "type must be Slalom or Giant Slalom" }) };
-    }
 
-    const existing = await ddb.send(new GetCommand({ TableName: RACES, Key: { raceId } }));
-    if (!existing.Item) return { statusCode: 404, body: JSON.stringify({ error: "Race not found" }) };
-
-    const updates: string[] = [];
-    const values: Record<string, any> = {};
-    const names: Record<string, string> = {};
-    if (locked !== undefined) { updates.push("locked = :l"); values[":l"] = locked; }
-    if (independent !== undefined) { updates.push("independent = :i"); values[":i"] = independent; }
-    if (name !== undefined) { updates.push("#name = :n"); values[":n"] = name.trim(); names["#name"] = "name"; }
-    if (location !== undefined) { updates.push("#location = :loc"); values[":loc"] = location.trim(); names["#location"] = "location"; }
-    if (date !== undefined) { updates.push("#date = :d"); values[":d"] = date; names["#date"] = "date"; }
-    if (type !== undefined) { updates.push("#type = :t"); values[":t"] = type; names["#type"] = "type"; }
-
-    if (updates.length === 0) {
-      return { statusCode: 400, body: JSON.stringify({ error: "No valid fields to update" }) };
+    const existing = await repos().races.get(raceId);
+    if (!existing) throw new NotFoundError("Race not found");
+    requireNotArchived(existing);
+    requireNotPostponed(existing);
+    let nextSeasonId: string | null | undefined = seasonId !== undefined ? await resolveSeasonId(seasonId, existing.date) : undefined;
+    if (seasonId === undefined && date) nextSeasonId = await seasonAfterMove(existing, date);
+
+    // A new venue drops the old course unless one is given, and the location follows the venue
+    // unless one is given too. Clearing the venue keeps the location it gave.
+    let placement: Pick<RacePatch, "venueId" | "courseId" | "location"> = {};
+    if (venueId !== undefined || courseId !== undefined) {
+      const nextVenueId = venueId === null ? undefined : venueId ?? existing.venueId;
+      const nextCourseId = courseId === null
+        ? undefined
+        : courseId ?? (venueId !== undefined && venueId !== existing.venueId ? undefined : existing.courseId);
+      const { input, errors } = await placeAtVenue({
+        venueId: nextVenueId,
+        courseId: nextCourseId,
+        location: location ?? (nextVenueId ? undefined : existing.location),
+      });
+      if (errors.length) throw new ValidationError("Request body is invalid", { fields: errors });
+      placement = { venueId: nextVenueId ?? null, courseId: nextCourseId ?? null, location: input.location?.trim() };
     }
 
-    const updated = await ddb.send(new UpdateCommand({
-      TableName: RACES,
-      Key: { raceId },
-      UpdateExpression: `SET ${updates.join(", ")}`,
-      ExpressionAttributeValues: values,
-      ExpressionAttributeNames: Object.keys(names).length ? names : undefined,
-      ReturnValues: "ALL_NEW",
-      ConditionExpression: "attribute_exists(raceId)",
-    }));
-    const item = updated.Attributes ?? { ...existing.Item, locked: body.locked };
-    return { statusCode: 200, body: JSON.stringify(normalizeRace(item as any)) };
+    // `locked` from older clients locks or reopens rosters through the same transitions.
+    const statusPatch = locked === undefined
+      ? {}
+      : transition(existing, locked ? "rosters_locked" : "rosters_open");
+
+    const updated = await repos().races.update(raceId, {
+      seasonId: nextSeasonId,
+      ...statusPatch,
+      independent,
+      name: name?.trim(),
+      location: location?.trim(),
+      ...placement,
+      date,
+      type,
+      runs,
+      rosterDeadline: rosterDeadline === null ? null : rosterDeadline ? toUtc(rosterDeadline) : undefined,
+      autoGenerateStartList,
+    });
+    if (!updated) throw new NotFoundError("Race not found");
+    return { statusCode: 200, body: JSON.stringify(normalizeRace(updated)) };
   }
 
-  return {  statusCode: 404,  body: JSON.stringify({ error: "Not found" }) };
+  throw new NotFoundError();
 };
@@ -1,44 +1,21 @@
 import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
-import { DynamoDBDocumentClient, DeleteCommand, PutCommand, QueryCommand, BatchGetCommand } from "@aws-sdk/lib-dynamodb";
-
-type Gender = "Male" | "Female" | "Unknown";
-type RacerClass = "Varsity" | "Varsity Alternate" | "Jr Varsity" | "Provisional" | "Unknown";
-
-type RunInfo = {
-  status: number;
-  timeSec?: number;
-};
-
-type ParsedEntry = {
-  raceId: string;
-  bib: number;
-  racerId?: string;
-  racerName: string;
-  teamId?: string;
-  teamName: string;
-  gender: Gender;
-  class: RacerClass;
-  run1: RunInfo;
-  run2: RunInfo;
-  run1Points: number;
-  run2Points: number;
-  totalPoints: number;
+import { coOpsByTeam, withCoOp } from "../coOps";
+import { etag } from "../concurrency";
+import { MethodNotAllowedError, NotFoundError, PreconditionFailedError, ValidationError } from "../errors";
+import { finished, raceRuns } from "../raceFormat";
+import { raceStatus, requireRaceStatus, transition } from "../raceStatus";
+import { repos, ResultClass, ResultEntry, ResultGender, RuleSet, RunInfo, TeamScore } from "../repos";
+import { classRank, rulesForRace } from "../rules";
+import { teamMatcher } from "../teamNames";
+import { courseOf } from "../venues";
+
+type Gender = ResultGender;
+type RacerClass = ResultClass;
+
+type ParsedEntry = ResultEntry & {
   issues?: string[];
 };
 
-type TeamScore = {
-  gender: Gender;
-  teamId: string;
-  teamName: string;
-  run1TotalSec: number | null;
-  run2TotalSec: number | null;
-  totalTimeSec: number | null;
-  run1Contribs: { bib: number; racerName: string; timeSec: number }[];
-  run2Contribs: { bib: number; racerName: string; timeSec: number }[];
-  points: number;
-};
-
 type StartListEntry = {
   racerId: string;
   racerName: string;
@@ -51,11 +28,6 @@ type StartListEntry = {
 
 const ladder = [100, 80, 60, 50, 45, 40, 36, 32, 29, 26, 24, 22, 20, 18, 16, 15, 14, 13, 12, 11, 10, 9, 8, 7, 6, 5, 4, 3, 2, 1];
 
-const ddb = DynamoDBDocumentClient.from(new DynamoDBClient({}));
-const STARTLISTS = process.env.STARTLISTS_TABLE!;
-const RESULTS = process.env.RESULTS_TABLE!;
-const TEAMS = process.env.TEAMS_TABLE!;
-
 function normalizeName(name: string): string {
   const raw = name.trim();
   const lastCommaIdx = raw.indexOf(",");
@@ -99,12 +71,8 @@ function parseRun(block: string | undefined): RunInfo {
 }
 
 async function getStartList(raceId: string): Promise<StartListEntry[]> {
-  const res = await ddb.send(new QueryCommand({
-    TableName: STARTLISTS,
-    KeyConditionExpression: "raceId = :r",
-    ExpressionAttributeValues: { ":r": raceId },
-  }));
-  return (res.Items ?? [])
+  const { entries } = await repos().startLists.get(raceId);
+  return entries
     .filter(i => typeof i.bib === "number" && i.bib > 0)
     .map(i => ({
       racerId: String(i.racerId),
@@ -118,28 +86,11 @@ async function getStartList(raceId: string): Promise<StartListEntry[]> {
 }
 
 async function getNonLeagueTeamIds(teamIds: string[]): Promise<Set<string>> {
-  const unique = Array.from(new Set(teamIds.filter(Boolean)));
-  const nonLeague = new Set<string>();
-  const chunkSize = 100;
-  for (let i = 0; i < unique.length; i += chunkSize) {
-    const chunk = unique.slice(i, i + chunkSize);
-    const res = await ddb.send(new BatchGetCommand({
-      RequestItems: {
-        [TEAMS]: {
-          Keys: chunk.map(teamId => ({ teamId })),
-          ProjectionExpression: "teamId, nonLeague",
-        },
-      },
-    }));
-    const items = res.Responses?.[TEAMS] ?? [];
-    for (const item of items) {
-      if (item?.nonLeague) nonLeague.add(String(item.teamId));
-    }
-  }
-  return nonLeague;
+  const teams = await repos().teams.getMany(teamIds.filter(Boolean));
+  return new Set(teams.filter(t => t.nonLeague).map(t => t.teamId));
 }
 
-function parseComps(xml: string, fallbackGender: Gender): ParsedEntry[] {
+function parseComps(xml: string, fallbackGender: Gender, runs: number): ParsedEntry[] {
   const comps: ParsedEntry[] = [];
   const compRegex = /<Comp>[\s\S]*?<\/Comp>/g;
   for (const match of xml.matchAll(compRegex)) {
@@ -149,8 +100,8 @@ function parseComps(xml: string, fallbackGender: Gender): ParsedEntry[] {
     const name = (block.match(/<Name>([^<]+)<\/Name>/)?.[1] || "").trim();
     const team = (block.match(/<Team>([^<]+)<\/Team>/)?.[1] || "").trim();
     const compClass = normalizeClass(block.match(/<CompClass>([^<]+)<\/CompClass>/)?.[1]);
-    const run1Block = block.match(/<Time1>([\s\S]*?)<\/Time1>/)?.[1];
-    const run2Block = block.match(/<Time2>([\s\S]*?)<\/Time2>/)?.[1];
+    const runBlocks = Array.from({ length: runs }, (_, i) =>
+      block.match(new RegExp(`<Time${i + 1}>([\\s\\S]*?)</Time${i + 1}>`))?.[1]);
     comps.push({
       raceId: "",
       bib,
@@ -158,101 +109,44 @@ function parseComps(xml: string, fallbackGender: Gender): ParsedEntry[] {
       teamName: team,
       gender: fallbackGender,
       class: compClass,
-      run1: parseRun(run1Block),
-      run2: parseRun(run2Block),
-      run1Points: 0,
-      run2Points: 0,
+      runs: runBlocks.map(parseRun),
+      runPoints: runBlocks.map(() => 0),
       totalPoints: 0,
     });
   }
   return comps;
 }
 
-function competitionPoints(finishers: ParsedEntry[], runKey: "run1" | "run2") {
+function competitionPoints(finishers: ParsedEntry[], run: number) {
   const list = finishers
-    .filter(e => e[runKey].status === 1 && typeof e[runKey].timeSec === "number")
-    .sort((a, b) => (a[runKey].timeSec! - b[runKey].timeSec!));
+    .filter(e => finished(e.runs[run]))
+    .sort((a, b) => (a.runs[run].timeSec! - b.runs[run].timeSec!));
 
   let prevTime: number | undefined;
   let prevRank = 0;
   list.forEach((entry, idx) => {
-    const time = entry[runKey].timeSec!;
+    const time = entry.runs[run].timeSec!;
     const rank = (prevTime !== undefined && time === prevTime) ? prevRank : idx + 1;
-    const points = ladder[rank - 1] ?? 0;
-    if (runKey === "run1") entry.run1Points = points;
-    else entry.run2Points = points;
+    entry.runPoints[run] = ladder[rank - 1] ?? 0;
     prevTime = time;
     prevRank = rank;
   });
 }
 
 async function saveResults(raceId: string, entries: ParsedEntry[], issues: string[], teamScores: TeamScore[]) {
-  const existing = await ddb.send(new QueryCommand({
-    TableName: RESULTS,
-    KeyConditionExpression: "raceId = :r",
-    ExpressionAttributeValues: { ":r": raceId },
-  }));
-  for (const item of existing.Items ?? []) {
-    await ddb.send(new DeleteCommand({ TableName: RESULTS, Key: { raceId, bib: item.bib } }));
-  }
-
-  await ddb.send(new PutCommand({
-    TableName: RESULTS,
-    Item: { raceId, bib: 0, generatedAt: new Date().toISOString(), issues, teamScores },
-  }));
-
-  for (const e of entries) {
-    await ddb.send(new PutCommand({
-      TableName: RESULTS,
-      Item: {
-        raceId,
-        bib: e.bib,
-        racerId: e.racerId,
-        racerName: e.racerName,
-        teamId: e.teamId,
-        teamName: e.teamName,
-        gender: e.gender,
-        class: e.class,
-        run1Status: e.run1.status,
-        run2Status: e.run2.status,
-        run1TimeSec: e.run1.timeSec,
-        run2TimeSec: e.run2.timeSec,
-        run1Points: e.run1Points,
-        run2Points: e.run2Points,
-        totalPoints: e.totalPoints,
-      },
-    }));
-  }
+  await repos().results.replace(raceId, entries, { generatedAt: new Date().toISOString(), issues, teamScores });
 }
 
 async function loadResults(raceId: string) {
-  const res = await ddb.send(new QueryCommand({
-    TableName: RESULTS,
-    KeyConditionExpression: "raceId = :r",
-    ExpressionAttributeValues: { ":r": raceId },
-  }));
-  const items = res.Items ?? [];
-  const summary = items.find(i => i.bib === 0);
-  const entries = items
-    .filter(i => i.bib !== 0)
+  const { entries: stored, summary } = await repos().results.get(raceId);
+  const entries = stored
     .map(i => ({
-      raceId,
-      bib: Number(i.bib),
-      racerId: i.racerId as string | undefined,
-      racerName: String(i.racerName ?? ""),
-      teamId: i.teamId as string | undefined,
-      teamName: String(i.teamName ?? ""),
-      gender: normalizeGender(i.gender as string | undefined),
-      class: normalizeClass(i.class as string | undefined),
-      run1: { status: Number(i.run1Status ?? 0), timeSec: typeof i.run1TimeSec === "number" ? i.run1TimeSec : undefined },
-      run2: { status: Number(i.run2Status ?? 0), timeSec: typeof i.run2TimeSec === "number" ? i.run2TimeSec : undefined },
-      run1Points: Number(i.run1Points ?? 0),
-      run2Points: Number(i.run2Points ?? 0),
-      totalPoints: Number(i.totalPoints ?? 0),
+      ...i,
+      gender: normalizeGender(i.gender),
+      class: normalizeClass(i.class),
     }))
     .sort((a, b) => b.totalPoints - a.totalPoints || a.bib - b.bib);
-  const teamScores = (summary?.teamScores as TeamScore[] | undefined) ?? [];
-  return { entries, issues: (summary?.issues as string[] | undefined) ?? [], teamScores };
+  return { entries, issues: summary?.issues ?? [], teamScores: summary?.teamScores ?? [] };
 }
 
 function toParsedEntry(entry: {
@@ -262,12 +156,12 @@ function toParsedEntry(entry: {
   racerName: string;
   teamId?: string;
   teamName: string;
+  coOpId?: string;
+  coOpName?: string;
   gender: Gender | "Unknown";
   class: RacerClass | "Unknown";
-  run1: RunInfo;
-  run2: RunInfo;
-  run1Points: number;
-  run2Points: number;
+  runs: RunInfo[];
+  runPoints: number[];
   totalPoints: number;
 }): ParsedEntry {
   return {
@@ -277,17 +171,17 @@ function toParsedEntry(entry: {
     racerName: entry.racerName,
     teamId: entry.teamId,
     teamName: entry.teamName,
+    ...(entry.coOpId ? { coOpId: entry.coOpId, coOpName: entry.coOpName } : {}),
     gender: entry.gender as Gender,
     class: entry.class as RacerClass,
-    run1: { status: entry.run1.status, timeSec: entry.run1.timeSec },
-    run2: { status: entry.run2.status, timeSec: entry.run2.timeSec },
-    run1Points: entry.run1Points,
-    run2Points: entry.run2Points,
+    runs: entry.runs.map(r => ({ status: r.status, timeSec: r.timeSec })),
+    runPoints: entry.runPoints.slice(),
     totalPoints: entry.totalPoints,
   };
 }
 
-function buildGroups(entries: ParsedEntry[]) {
+// Groups by gender and scoring class, in the rule set's class order with women first.
+function buildGroups(entries: ParsedEntry[], rules: RuleSet) {
   const groups: { gender: Gender; class: RacerClass; entries: ParsedEntry[] }[] = [];
   const byKey = new Map<string, ParsedEntry[]>();
   for (const entry of entries) {
@@ -302,16 +196,9 @@ function buildGroups(entries: ParsedEntry[]) {
     groups.push({ gender, class: cls, entries: sorted });
   }
   const rank = (g: Gender, c: RacerClass) => {
-    const isFemale = g === "Female";
-    const isMale = g === "Male";
     const cls = scoringClass(c);
-    if (isFemale && cls === "Varsity") return 1;
-    if (isMale && cls === "Varsity") return 2;
-    if (isFemale && cls === "Jr Varsity") return 3;
-    if (isMale && cls === "Jr Varsity") return 4;
-    if (isFemale && cls === "Provisional") return 5;
-    if (isMale && cls === "Provisional") return 6;
-    return 999;
+    if (cls === "Unknown" || !rules.classes.includes(cls) || g === "Unknown") return 999;
+    return classRank(rules, cls) * 2 + (g === "Female" ? 0 : 1);
   };
   groups.sort((a, b) => rank(a.gender, a.class) - rank(b.gender, b.class));
   return groups;
@@ -325,65 +212,79 @@ function serializeEntries(entries: ParsedEntry[]) {
     racerName: e.racerName,
     teamId: e.teamId,
     teamName: e.teamName,
+    coOpId: e.coOpId,
+    coOpName: e.coOpName,
     gender: e.gender,
     class: e.class,
-    run1Status: e.run1.status,
-    run2Status: e.run2.status,
-    run1TimeSec: e.run1.timeSec,
-    run2TimeSec: e.run2.timeSec,
-    run1Points: e.run1Points,
-    run2Points: e.run2Points,
+    runs: e.runs.map((r, i) => ({ status: r.status, timeSec: r.timeSec, points: e.runPoints[i] ?? 0 })),
+    // Flat first/second run fields for clients written before races could have other run counts.
+    run1Status: e.runs[0]?.status ?? 0,
+    run2Status: e.runs[1]?.status ?? 0,
+    run1TimeSec: e.runs[0]?.timeSec,
+    run2TimeSec: e.runs[1]?.timeSec,
+    run1Points: e.runPoints[0] ?? 0,
+    run2Points: e.runPoints[1] ?? 0,
     totalPoints: e.totalPoints,
   }));
 }
 
+function serializeTeamScores(scores: TeamScore[]) {
+  return scores.map(s => ({
+    ...s,
+    run1TotalSec: s.runTotalsSec[0] ?? null,
+    run2TotalSec: s.runTotalsSec[1] ?? null,
+    run1Contribs: s.runContribs[0] ?? [],
+    run2Contribs: s.runContribs[1] ?? [],
+  }));
+}
+
 function bestThreeSum(times: number[]): number | null {
   if (times.length < 3) return null;
   const sorted = times.slice().sort((a, b) => a - b);
   return sorted[0] + sorted[1] + sorted[2];
 }
 
-function computeTeamScores(entries: ParsedEntry[]): TeamScore[] {
+// Racers score for their co-op when their team is in one, otherwise for their team.
+function computeTeamScores(entries: ParsedEntry[], runs: number): TeamScore[] {
   const scores: TeamScore[] = [];
   const genders: Gender[] = ["Female", "Male"];
+  const runIndexes = Array.from({ length: runs }, (_, i) => i);
   for (const gender of genders) {
-    // teamId -> {run1Times, run2Times, teamName, racers}
-    const byTeam: Record<string, { run1: ParsedEntry[]; run2: ParsedEntry[]; teamName: string; racers: Set<string> }> = {};
+    // teamId or coOpId -> {finishers per run, teamName, racers, member teams}
+    const byTeam: Record<string, { runs: ParsedEntry[][]; teamName: string; racers: Set<string>; members: Set<string> }> = {};
     for (const e of entries) {
       if (e.class !== "Varsity" || e.gender !== gender) continue;
-      if (!byTeam[e.teamId || ""]) {
-        byTeam[e.teamId || ""] = { run1: [], run2: [], teamName: e.teamName, racers: new Set() };
+      const key = e.coOpId || e.teamId || "";
+      if (!byTeam[key]) {
+        byTeam[key] = { runs: runIndexes.map(() => []), teamName: e.coOpName || e.teamName, racers: new Set(), members: new Set() };
       }
-      const bucket = byTeam[e.teamId || ""];
+      const bucket = byTeam[key];
       bucket.racers.add(e.racerId || String(e.bib));
-      if (e.run1.status === 1 && typeof e.run1.timeSec === "number") bucket.run1.push(e);
-      if (e.run2.status === 1 && typeof e.run2.timeSec === "number") bucket.run2.push(e);
-      if (!bucket.teamName) bucket.teamName = e.teamName;
+      if (e.coOpId && e.teamId) bucket.members.add(e.teamId);
+      runIndexes.forEach(i => {
+        if (finished(e.runs[i])) bucket.runs[i].push(e);
+      });
+      if (!bucket.teamName) bucket.teamName = e.coOpName || e.teamName;
     }
 
     const eligible: TeamScore[] = [];
     for (const [teamId, data] of Object.entries(byTeam)) {
       if (!teamId) continue;
-      const run1Finishers = data.run1
-        .slice()
-        .sort((a, b) => (a.run1.timeSec! - b.run1.timeSec!));
-      const run2Finishers = data.run2
+      const runContribs = data.runs.map((finishers, i) => finishers
         .slice()
-        .sort((a, b) => (a.run2.timeSec! - b.run2.timeSec!));
-      const run1Contribs = run1Finishers.slice(0, 3).map(e => ({ bib: e.bib, racerName: e.racerName, timeSec: e.run1.timeSec! }));
-      const run2Contribs = run2Finishers.slice(0, 3).map(e => ({ bib: e.bib, racerName: e.racerName, timeSec: e.run2.timeSec! }));
-      const run1Total = run1Contribs.length === 3 ? run1Contribs.reduce((s, r) => s + r.timeSec, 0) : null;
-      const run2Total = run2Contribs.length === 3 ? run2Contribs.reduce((s, r) => s + r.timeSec, 0) : null;
-      const total = run1Total !== null && run2Total !== null ? run1Total + run2Total : null;
+        .sort((a, b) => (a.runs[i].timeSec! - b.runs[i].timeSec!))
+        .slice(0, 3)
+        .map(e => ({ bib: e.bib, racerName: e.racerName, timeSec: e.runs[i].timeSec! })));
+      const runTotalsSec = runContribs.map(c => c.length === 3 ? c.reduce((s, r) => s + r.timeSec, 0) : null);
+      const total = runTotalsSec.every(t => t !== null) ? runTotalsSec.reduce((s, t) => s! + t!, 0) : null;
       eligible.push({
         gender,
         teamId,
         teamName: data.teamName,
-        run1TotalSec: run1Total,
-        run2TotalSec: run2Total,
+        ...(data.members.size ? { memberTeamIds: Array.from(data.members) } : {}),
+        runTotalsSec,
         totalTimeSec: total,
-        run1Contribs,
-        run2Contribs,
+        runContribs,
         points: 0,
       });
     }
@@ -419,7 +320,7 @@ function computeTeamScores(entries: ParsedEntry[]): TeamScore[] {
 
 export const resultsRouter = async (e: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
   const raceId = e.pathParameters?.["raceId"];
-  if (!raceId) return { statusCode: 400, body: JSON.stringify({ error: "raceId required" }) };
+  if (!raceId) throw new ValidationError("raceId required");
   const method = e.requestContext.http.method;
 
   if (method === "GET") {
@@ -429,42 +330,49 @@ export const resultsRouter = async (e: APIGatewayProxyEventV2): Promise<APIGatew
     );
     const scoringEntries = res.entries.filter(e => !nonLeagueTeamIds.has(e.teamId || ""));
     const responseEntries = serializeEntries(res.entries);
-    const groups = buildGroups(scoringEntries).map(g => ({ ...g, entries: serializeEntries(g.entries) }));
-    return { statusCode: 200, body: JSON.stringify({ entries: responseEntries, issues: res.issues, groups, teamScores: res.teamScores }) };
+    const groups = buildGroups(scoringEntries, await rulesForRace(raceId)).map(g => ({ ...g, entries: serializeEntries(g.entries) }));
+    const teamScores = serializeTeamScores(res.teamScores);
+    // Where it was raced, for exports; null for races without a venue.
+    const race = await repos().races.get(raceId);
+    const placed = race ? await courseOf(race) : null;
+    const venue = placed ? { venueId: placed.venue.venueId, name: placed.venue.name, address: placed.venue.address } : null;
+    const course = placed?.course ?? null;
+    return { statusCode: 200, body: JSON.stringify({ entries: responseEntries, issues: res.issues, groups, teamScores, venue, course }) };
   }
 
   if (method === "POST" && e.rawPath.endsWith("/recalc")) {
+    const race = await requireRaceStatus(raceId, ["results_provisional"], "Recalculating results");
     const res = await loadResults(raceId);
     if (!res.entries.length) {
-      return { statusCode: 400, body: JSON.stringify({ error: "No results found for this race" }) };
+      throw new NotFoundError("No results found for this race");
     }
     const nonLeagueTeamIds = await getNonLeagueTeamIds(
       res.entries.map(e => e.teamId || "")
     );
-    const parsed = res.entries.map(toParsedEntry);
-    const teamScores = computeTeamScores(parsed.filter(e => !nonLeagueTeamIds.has(e.teamId || "")));
-
-    await ddb.send(new PutCommand({
-      TableName: RESULTS,
-      Item: {
-        raceId,
-        bib: 0,
-        generatedAt: new Date().toISOString(),
-        issues: res.issues,
-        teamScores,
-      },
-    }));
+    // Co-ops are looked up again, so scores follow co-op changes made since the import.
+    const coOps = await coOpsByTeam(race.seasonId);
+    const parsed = res.entries.map(e => withCoOp(toParsedEntry(e), coOps));
+    const teamScores = computeTeamScores(parsed.filter(e => !nonLeagueTeamIds.has(e.teamId || "")), raceRuns(race));
+
+    await repos().results.putSummary(raceId, {
+      generatedAt: new Date().toISOString(),
+      issues: res.issues,
+      teamScores,
+    });
 
-    const responseEntries = serializeEntries(res.entries);
-    const groups = buildGroups(parsed.filter(e => !nonLeagueTeamIds.has(e.teamId || "")))
+    const responseEntries = serializeEntries(parsed);
+    const groups = buildGroups(parsed.filter(e => !nonLeagueTeamIds.has(e.teamId || "")), await rulesForRace(raceId))
       .map(g => ({ ...g, entries: serializeEntries(g.entries) }));
-    return { statusCode: 200, body: JSON.stringify({ entries: responseEntries, issues: res.issues, groups, teamScores }) };
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ entries: responseEntries, issues: res.issues, groups, teamScores: serializeTeamScores(teamScores) }),
+    };
   }
 
   if (method === "POST") {
+    const race = await requireRaceStatus(raceId, ["start_list_published", "results_provisional"], "Importing results");
     const body = JSON.parse(e.body || "{}");
-    const xml = String(body.xml || "");
-    if (!xml.trim()) return { statusCode: 400, body: JSON.stringify({ error: "xml required" }) };
+    const xml = String(body.xml);
 
     const startList = await getStartList(raceId);
     const byBib = new Map<number, StartListEntry>();
@@ -472,22 +380,31 @@ export const resultsRouter = async (e: APIGatewayProxyEventV2): Promise<APIGatew
     const nonLeagueTeamIds = await getNonLeagueTeamIds(startList.map(e => e.teamId));
 
     const fallbackGender = normalizeGender(xml.match(/<CurrentSex>([^<]+)<\/CurrentSex>/)?.[1]);
-    const parsed = parseComps(xml, fallbackGender);
+    const runs = raceRuns(race);
+    const parsed = parseComps(xml, fallbackGender, runs);
     const issues: string[] = [];
+    // Timing files name teams their own way ("SMA"); team names, abbreviations and aliases map them back.
+    const matchTeam = teamMatcher(await repos().teams.list());
+    const coOps = await coOpsByTeam(race.seasonId);
 
     const merged: ParsedEntry[] = parsed.map(p => {
       const sl = byBib.get(p.bib);
+      const fileTeam = matchTeam(p.teamName);
       if (!sl) {
         issues.push(`Bib ${p.bib} not found in start list (file shows ${p.racerName})`);
-        return { ...p, raceId, gender: p.gender, class: p.class };
+        const team = fileTeam ? { teamId: fileTeam.teamId, teamName: fileTeam.name } : {};
+        return withCoOp({ ...p, ...team, raceId, gender: p.gender, class: p.class }, coOps);
       }
       const normFile = normalizeName(p.racerName);
       const normStart = normalizeName(sl.racerName);
       if (normFile && normStart && normFile !== normStart) {
         issues.push(`Bib ${p.bib} name mismatch: file "${p.racerName}" vs start list "${sl.racerName}"`);
       }
+      if (fileTeam && fileTeam.teamId !== sl.teamId) {
+        issues.push(`Bib ${p.bib} team mismatch: file "${p.teamName}" is ${fileTeam.name}, start list has ${sl.teamName}`);
+      }
       const cls = sl.class;
-      return {
+      return withCoOp({
         ...p,
         raceId,
         racerId: sl.racerId,
@@ -496,7 +413,7 @@ export const resultsRouter = async (e: APIGatewayProxyEventV2): Promise<APIGatew
         teamName: sl.teamName,
         gender: sl.gender ?? p.gender,
         class: cls as RacerClass,
-      };
+      }, coOps);
     });
 
     const groupMap = new Map<string, ParsedEntry[]>();
@@ -511,8 +428,7 @@ export const resultsRouter = async (e: APIGatewayProxyEventV2): Promise<APIGatew
     }
 
     for (const [, list] of groupMap) {
-      competitionPoints(list, "run1");
-      competitionPoints(list, "run2");
+      for (let run = 0; run < runs; run++) competitionPoints(list, run);
     }
 
     const finalEntries = merged.map(e => {
@@ -524,17 +440,27 @@ export const resultsRouter = async (e: APIGatewayProxyEventV2): Promise<APIGatew
         ...updated,
         class: normalizeClass(e.class) as RacerClass,
         gender,
-        totalPoints: (updated.run1Points || 0) + (updated.run2Points || 0),
+        totalPoints: updated.runPoints.reduce((s, p) => s + (p || 0), 0),
       };
     }).sort((a, b) => b.totalPoints - a.totalPoints || a.bib - b.bib);
 
-    const teamScores = computeTeamScores(finalEntries.filter(e => !nonLeagueTeamIds.has(e.teamId || "")));
+    const teamScores = computeTeamScores(finalEntries.filter(e => !nonLeagueTeamIds.has(e.teamId || "")), runs);
+    // The first import makes the results provisional. Like any race write it takes the next race
+    // version, and gives up before saving anything if the race changed since it was read.
+    const firstImport = raceStatus(race) === "start_list_published";
+    if (firstImport && !(await repos().races.claimVersion(raceId, race.version ?? 0))) {
+      const latest = await repos().races.get(raceId);
+      throw new PreconditionFailedError("The race was changed while importing; reload and try again", { etag: etag(latest?.version ?? 0) });
+    }
     await saveResults(raceId, finalEntries, issues, teamScores);
+    if (firstImport) {
+      await repos().races.update(raceId, transition(race, "results_provisional"));
+    }
     const responseEntries = serializeEntries(finalEntries);
-    const groups = buildGroups(finalEntries.filter(e => !nonLeagueTeamIds.has(e.teamId || "")))
+    const groups = buildGroups(finalEntries.filter(e => !nonLeagueTeamIds.has(e.teamId || "")), await rulesForRace(raceId))
       .map(g => ({ ...g, entries: serializeEntries(g.entries) }));
-    return { statusCode: 200, body: JSON.stringify({ entries: responseEntries, issues, groups, teamScores }) };
+    return { statusCode: 200, body: JSON.stringify({ entries: responseEntries, issues, groups, teamScores: serializeTeamScores(teamScores) }) };
   }
 
-  return { statusCode: 405, body: JSON.stringify({ error: "Method not allowed" }) };
+  throw new MethodNotAllowedError();
 };
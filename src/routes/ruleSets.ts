@@ -0,0 +1,74 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
+import { ConflictError, NotFoundError, ValidationError } from "../errors";
+import { RacerClass, repos, RuleSet } from "../repos";
+
+function checkClasses(ruleSet: Pick<RuleSet, "classes" | "lockedClasses">) {
+  const fields: { field: string; message: string }[] = [];
+  if (new Set(ruleSet.classes).size !== ruleSet.classes.length) {
+    fields.push({ field: "classes", message: "classes must not repeat a class" });
+  }
+  const unknown = ruleSet.lockedClasses.filter(c => !ruleSet.classes.includes(c));
+  if (unknown.length) {
+    fields.push({ field: "lockedClasses", message: `lockedClasses must be among classes (not ${unknown.join(", ")})` });
+  }
+  if (fields.length) throw new ValidationError("Request body is invalid", { fields });
+}
+
+export const ruleSetsRouter = async (e: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  const method = e.requestContext.http.method;
+  const ruleSetId = e.pathParameters?.["ruleSetId"];
+
+  if (method === "GET" && !ruleSetId) {
+    const ruleSets = (await repos().ruleSets.list()).sort((a, b) => a.name.localeCompare(b.name));
+    return { statusCode: 200, body: JSON.stringify(ruleSets) };
+  }
+
+  if (method === "POST" && !ruleSetId) {
+    // Field types and class names are checked against createRuleSetBody before we get here.
+    const { ruleSetId: providedId, name, classes, caps, lockedClasses } = JSON.parse(e.body || "{}") as {
+      ruleSetId?: string;
+      name: string;
+      classes: RacerClass[];
+      caps?: RuleSet["caps"];
+      lockedClasses?: RacerClass[];
+    };
+    const { nanoid } = await import("nanoid");
+    const ruleSet: RuleSet = {
+      ruleSetId: providedId?.trim() || nanoid(10),
+      name: name.trim(),
+      classes,
+      caps: caps ?? {},
+      lockedClasses: lockedClasses ?? [],
+    };
+    checkClasses(ruleSet);
+    await repos().ruleSets.create(ruleSet);
+    return { statusCode: 200, body: JSON.stringify(ruleSet) };
+  }
+
+  if (!ruleSetId) throw new NotFoundError();
+  const existing = await repos().ruleSets.get(ruleSetId);
+  if (!existing) throw new NotFoundError("Rule set not found");
+
+  if (method === "GET") {
+    return { statusCode: 200, body: JSON.stringify(existing) };
+  }
+
+  if (method === "PATCH") {
+    const { name, classes, caps, lockedClasses } = JSON.parse(e.body || "{}") as Partial<RuleSet>;
+    checkClasses({ classes: classes ?? existing.classes, lockedClasses: lockedClasses ?? existing.lockedClasses });
+    const updated = await repos().ruleSets.update(ruleSetId, { name: name?.trim(), classes, caps, lockedClasses });
+    if (!updated) throw new NotFoundError("Rule set not found");
+    return { statusCode: 200, body: JSON.stringify(updated) };
+  }
+
+  if (method === "DELETE") {
+    const seasons = (await repos().seasons.list()).filter(s => s.ruleSetId === ruleSetId);
+    if (seasons.length) {
+      throw new ConflictError("Rule set is used by seasons; point them elsewhere first", { seasonIds: seasons.map(s => s.seasonId) });
+    }
+    await repos().ruleSets.delete(ruleSetId);
+    return { statusCode: 200, body: JSON.stringify({ ok: true }) };
+  }
+
+  throw new NotFoundError();
+};
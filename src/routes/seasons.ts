@@ -0,0 +1,103 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
+import { ConflictError, NotFoundError, ValidationError } from "../errors";
+import { repos, Season } from "../repos";
+import { normalizeRace } from "./races";
+
+function checkDates(season: Pick<Season, "startDate" | "endDate">) {
+  if (season.startDate > season.endDate) {
+    throw new ValidationError("Request body is invalid", {
+      fields: [{ field: "endDate", message: "endDate must not be before startDate" }],
+    });
+  }
+}
+
+// Races join the season their date falls in, so no two seasons may share a day.
+async function checkOverlap(season: Pick<Season, "seasonId" | "startDate" | "endDate">) {
+  const clash = (await repos().seasons.list()).find(
+    other => other.seasonId !== season.seasonId && other.startDate <= season.endDate && season.startDate <= other.endDate,
+  );
+  if (clash) {
+    throw new ConflictError(`Season ${clash.name} already runs from ${clash.startDate} to ${clash.endDate}`, {
+      seasonId: clash.seasonId,
+      startDate: clash.startDate,
+      endDate: clash.endDate,
+    });
+  }
+}
+
+async function checkRuleSet(ruleSetId: string | undefined) {
+  if (ruleSetId?.trim() && !(await repos().ruleSets.get(ruleSetId.trim()))) {
+    throw new ValidationError("Request body is invalid", {
+      fields: [{ field: "ruleSetId", message: `ruleSetId ${ruleSetId} is not a rule set` }],
+    });
+  }
+}
+
+export const seasonsRouter = async (e: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  const method = e.requestContext.http.method;
+  const seasonId = e.pathParameters?.["seasonId"];
+
+  if (method === "GET" && !seasonId) {
+    const seasons = (await repos().seasons.list()).sort((a, b) => a.startDate.localeCompare(b.startDate));
+    return { statusCode: 200, body: JSON.stringify(seasons) };
+  }
+
+  if (method === "POST" && !seasonId) {
+    // Field types and date formats are checked against createSeasonBody before we get here.
+    const { seasonId: providedId, name, startDate, endDate, ruleSetId } = JSON.parse(e.body || "{}") as {
+      seasonId?: string;
+      name: string;
+      startDate: string;
+      endDate: string;
+      ruleSetId?: string;
+    };
+    const { nanoid } = await import("nanoid");
+    const season: Season = {
+      seasonId: providedId?.trim() || nanoid(10),
+      name: name.trim(),
+      startDate,
+      endDate,
+      ...(ruleSetId?.trim() ? { ruleSetId: ruleSetId.trim() } : {}),
+    };
+    checkDates(season);
+    await checkOverlap(season);
+    await checkRuleSet(season.ruleSetId);
+    await repos().seasons.create(season);
+    return { statusCode: 200, body: JSON.stringify(season) };
+  }
+
+  if (!seasonId) throw new NotFoundError();
+  const existing = await repos().seasons.get(seasonId);
+  if (!existing) throw new NotFoundError("Season not found");
+
+  if (method === "GET" && e.rawPath.endsWith("/races")) {
+    const races = (await repos().races.listBySeason(seasonId)).filter(r => !r.archivedAt).map(normalizeRace);
+    return { statusCode: 200, body: JSON.stringify(races) };
+  }
+
+  if (method === "GET") {
+    return { statusCode: 200, body: JSON.stringify(existing) };
+  }
+
+  if (method === "PATCH") {
+    const { name, startDate, endDate, ruleSetId } = JSON.parse(e.body || "{}") as Partial<Season>;
+    const dates = { startDate: startDate ?? existing.startDate, endDate: endDate ?? existing.endDate };
+    checkDates(dates);
+    await checkOverlap({ seasonId, ...dates });
+    await checkRuleSet(ruleSetId);
+    const updated = await repos().seasons.update(seasonId, { name: name?.trim(), startDate, endDate, ruleSetId });
+    if (!updated) throw new NotFoundError("Season not found");
+    return { statusCode: 200, body: JSON.stringify(updated) };
+  }
+
+  if (method === "DELETE") {
+    const races = await repos().races.listBySeason(seasonId);
+    if (races.length) {
+      throw new ConflictError("Season still has races; move or purge them first", { raceIds: races.map(r => r.raceId) });
+    }
+    await repos().seasons.delete(seasonId);
+    return { statusCode: 200, body: JSON.stringify({ ok: true }) };
+  }
+
+  throw new NotFoundError();
+};
@@ -1,32 +1,9 @@
 import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
-import { DynamoDBDocumentClient, QueryCommand, ScanCommand, GetCommand, PutCommand, DeleteCommand } from "@aws-sdk/lib-dynamodb";
-
-type Gender = "Male" | "Female";
-type RacerClass = "Varsity" | "Varsity Alternate" | "Jr Varsity" | "Provisional";
-
-type StartListEntry = {
-  raceId: string;
-  racerId: string;
-  racerName: string;
-  teamId: string;
-  teamName: string;
-  gender: Gender;
-  class: RacerClass;
-  bib: number;
-};
-type StartListMeta = {
-  teamsOrder: string[];
-};
-
-const ddb = DynamoDBDocumentClient.from(new DynamoDBClient({}));
-
-const TEAMS = process.env.TEAMS_TABLE!;
-const RACERS = process.env.RACERS_TABLE!;
-const ROSTERS = process.env.ROSTERS_TABLE!;
-const STARTLISTS = process.env.STARTLISTS_TABLE!;
-
-const racingClassOrder: RacerClass[] = ["Varsity", "Varsity Alternate", "Jr Varsity", "Provisional"];
+import { coOpsByTeam, withCoOp } from "../coOps";
+import { ConflictError, NotFoundError, ValidationError } from "../errors";
+import { requireRaceStatus } from "../raceStatus";
+import { Gender, repos, RosterEntry, StartList, StartListEntry, StartListMeta, TeamWithRacers } from "../repos";
+import { rulesForRace } from "../rules";
 
 function shuffle<T>(arr: T[]): T[] {
   const a = arr.slice();
@@ -37,183 +14,95 @@ function shuffle<T>(arr: T[]): T[] {
   return a;
 }
 
-async function getTeams() {
-  const scan = await ddb.send(new ScanCommand({ TableName: TEAMS }));
-  const teams = scan.Items ?? [];
-  const withRacers = await Promise.all(
-    teams.map(async (t) => {
-      const racers = await ddb.send(new QueryCommand({
-        TableName: RACERS,
-        IndexName: "byTeam",
-        KeyConditionExpression: "teamId = :t",
-        ExpressionAttributeValues: { ":t": t.teamId },
-      }));
-      return { ...t, racers: racers.Items ?? [] };
-    })
+async function getTeams(): Promise<TeamWithRacers[]> {
+  const teams = await repos().teams.list();
+  return Promise.all(
+    teams.map(async (t) => ({ ...t, racers: await repos().racers.listByTeam(t.teamId) }))
   );
-  return withRacers;
 }
 
 async function getRoster(raceId: string, teamId: string) {
-  const res = await ddb.send(new QueryCommand({
-    TableName: ROSTERS,
-    KeyConditionExpression: "pk = :pk",
-    ExpressionAttributeValues: { ":pk": `ROSTER#${raceId}#${teamId}` },
-  }));
-  return res.Items ?? [];
+  return repos().rosters.list(raceId, teamId);
 }
 
 async function deleteExistingStartList(raceId: string) {
-  const existing = await ddb.send(new QueryCommand({
-    TableName: STARTLISTS,
-    KeyConditionExpression: "raceId = :r",
-    ExpressionAttributeValues: { ":r": raceId },
-  }));
-  for (const item of existing.Items ?? []) {
-    await ddb.send(new DeleteCommand({
-      TableName: STARTLISTS,
-      Key: { raceId, bib: item.bib },
-    }));
-  }
+  await repos().startLists.clear(raceId);
 }
 
 async function getExcludedBibs(raceId: string): Promise<number[]> {
-  const res = await ddb.send(new GetCommand({
-    TableName: STARTLISTS,
-    Key: { raceId, bib: 0 },
-  }));
-  return (res.Item?.excludedBibs as number[] | undefined) ?? [];
+  const settings = await repos().startLists.getSettings(raceId);
+  return settings?.excludedBibs ?? [];
 }
 
-async function getStartListData(raceId: string): Promise<{ entries: StartListEntry[]; meta?: StartListMeta; excludedBibs: number[] }> {
-  const res = await ddb.send(new QueryCommand({
-    TableName: STARTLISTS,
-    KeyConditionExpression: "raceId = :r",
-    ExpressionAttributeValues: { ":r": raceId },
-  }));
-  const metaItem = (res.Items ?? []).find(i => i.bib === 0);
-  const meta: StartListMeta | undefined = metaItem?.meta as any;
-  const excludedBibs = (metaItem?.excludedBibs as number[] | undefined) ?? [];
-  const entries: StartListEntry[] = (res.Items ?? [])
-    .filter(i => i.bib !== 0)
-    .map(i => ({
-      raceId,
-      racerId: i.racerId,
-      racerName: i.racerName,
-      teamId: i.teamId,
-      teamName: i.teamName,
-      gender: i.gender,
-      class: i.class,
-      bib: i.bib,
-    }))
-    .sort((a, b) => a.bib - b.bib);
-  return { entries, meta, excludedBibs };
+async function getStartListData(raceId: string): Promise<StartList> {
+  return repos().startLists.get(raceId);
 }
 
-async function getMeta(raceId: string): Promise<{ excludedBibs: number[]; meta?: StartListMeta } | null> {
-  const res = await ddb.send(new GetCommand({
-    TableName: STARTLISTS,
-    Key: { raceId, bib: 0 },
-  }));
-  if (!res.Item) return null;
-  return { excludedBibs: (res.Item.excludedBibs as number[] | undefined) ?? [], meta: res.Item.meta as StartListMeta | undefined };
+async function getMeta(raceId: string) {
+  return repos().startLists.getSettings(raceId);
 }
 
 async function putExcludedBibs(raceId: string, excludedBibs: number[]) {
-  await ddb.send(new PutCommand({
-    TableName: STARTLISTS,
-    Item: { raceId, bib: 0, excludedBibs },
-  }));
+  await repos().startLists.putSettings(raceId, { excludedBibs });
 }
 
 async function updateEntryBib(raceId: string, racerId: string, newBib: number): Promise<StartListEntry> {
   const { entries, excludedBibs } = await getStartListData(raceId);
   const target = entries.find(entry => entry.racerId === racerId);
-  if (!target) throw new Error("Racer not found in start list");
-  if (newBib <= 0 || !Number.isInteger(newBib)) throw new Error("Bib must be a positive integer");
-  if (excludedBibs.includes(newBib)) throw new Error("Bib is excluded for this race");
+  if (!target) throw new NotFoundError("Racer not found in start list");
+  if (newBib <= 0 || !Number.isInteger(newBib)) throw new ValidationError("Bib must be a positive integer");
+  if (excludedBibs.includes(newBib)) throw new ValidationError("Bib is excluded for this race");
   const existingBib = entries.find(entry => entry.bib === newBib);
-  if (existingBib && existingBib.racerId !== racerId) throw new Error("Bib is already assigned");
+  if (existingBib && existingBib.racerId !== racerId) throw new ConflictError("Bib is already assigned");
   if (target.bib === newBib) return target;
 
-  await ddb.send(new DeleteCommand({
-    TableName: STARTLISTS,
-    Key: { raceId, bib: target.bib },
-  }));
+  await repos().startLists.deleteEntry(raceId, target.bib);
 
   const updated: StartListEntry = { ...target, bib: newBib };
-  await ddb.send(new PutCommand({
-    TableName: STARTLISTS,
-    Item: {
-      raceId,
-      bib: newBib,
-      racerId: updated.racerId,
-      racerName: updated.racerName,
-      teamId: updated.teamId,
-      teamName: updated.teamName,
-      gender: updated.gender,
-      class: updated.class,
-    },
-  }));
+  await repos().startLists.putEntry(updated);
 
   return updated;
 }
 
 async function resolveRosteredRacer(raceId: string, racerId: string): Promise<Omit<StartListEntry, "bib">> {
-  const teamsScan = await ddb.send(new ScanCommand({ TableName: TEAMS }));
-  const teams = teamsScan.Items ?? [];
+  const teams = await repos().teams.list();
   for (const team of teams) {
-    const teamId = String(team.teamId);
+    const teamId = team.teamId;
     const roster = await getRoster(raceId, teamId);
-    const rosterEntry = (roster ?? []).find((item: any) => item.racerId === racerId);
+    const rosterEntry = roster.find(item => item.racerId === racerId);
     if (!rosterEntry) continue;
 
-    if (rosterEntry.class === "DNS" || rosterEntry.class === "DNS - Did Not Start") {
-      throw new Error("DNS entries cannot be added to the start list");
+    if (rosterEntry.class === "DNS") {
+      throw new ValidationError("DNS entries cannot be added to the start list");
     }
 
-    const racerRes = await ddb.send(new GetCommand({
-      TableName: RACERS,
-      Key: { racerId },
-    }));
-    const racer = racerRes.Item;
-    if (!racer) throw new Error("Racer not found");
+    const racer = await repos().racers.get(racerId);
+    if (!racer) throw new NotFoundError("Racer not found");
+    const race = await repos().races.get(raceId);
 
-    return {
+    return withCoOp({
       raceId,
       racerId,
-      racerName: String(racer.name ?? racerId),
+      racerName: racer.name ?? racerId,
       teamId,
-      teamName: String(team.name ?? teamId),
-      gender: rosterEntry.gender as Gender,
-      class: rosterEntry.class as RacerClass,
-    };
+      teamName: team.name ?? teamId,
+      gender: rosterEntry.gender,
+      class: rosterEntry.class,
+    }, await coOpsByTeam(race?.seasonId));
   }
-  throw new Error("Racer is not on this race roster");
+  throw new NotFoundError("Racer is not on this race roster");
 }
 
 async function addEntryToStartList(raceId: string, racerId: string, bib: number): Promise<StartListEntry> {
-  if (bib <= 0 || !Number.isInteger(bib)) throw new Error("Bib must be a positive integer");
+  if (bib <= 0 || !Number.isInteger(bib)) throw new ValidationError("Bib must be a positive integer");
   const { entries, excludedBibs } = await getStartListData(raceId);
-  if (entries.some(entry => entry.racerId === racerId)) throw new Error("Racer is already in the start list");
-  if (excludedBibs.includes(bib)) throw new Error("Bib is excluded for this race");
-  if (entries.some(entry => entry.bib === bib)) throw new Error("Bib is already assigned");
+  if (entries.some(entry => entry.racerId === racerId)) throw new ConflictError("Racer is already in the start list");
+  if (excludedBibs.includes(bib)) throw new ValidationError("Bib is excluded for this race");
+  if (entries.some(entry => entry.bib === bib)) throw new ConflictError("Bib is already assigned");
 
   const rostered = await resolveRosteredRacer(raceId, racerId);
   const created: StartListEntry = { ...rostered, bib };
-  await ddb.send(new PutCommand({
-    TableName: STARTLISTS,
-    Item: {
-      raceId,
-      bib,
-      racerId: created.racerId,
-      racerName: created.racerName,
-      teamId: created.teamId,
-      teamName: created.teamName,
-      gender: created.gender,
-      class: created.class,
-    },
-  }));
+  await repos().startLists.putEntry(created);
   return created;
 }
 
@@ -227,10 +116,127 @@ function nextAvailableBib(start: number, exclude: Set<number>, count: number): n
   return res;
 }
 
+// Rotates teams through each gender and class by roster start order, then numbers women from 1 and
+// men from 100, skipping excluded bibs. A co-op takes one turn as a unit. Also run by
+// src/jobs/lockRosters.ts.
+export async function generateStartList(raceId: string, excludedBibs?: number[]): Promise<Pick<StartList, "entries" | "meta">> {
+  const existingMeta = await getMeta(raceId);
+  // Classes race in the order of the season's rule set.
+  const racingClassOrder = (await rulesForRace(raceId)).classes;
+  const excludeList = excludedBibs ?? existingMeta?.excludedBibs ?? await getExcludedBibs(raceId);
+  await putExcludedBibs(raceId, excludeList);
+  const excludedSet = new Set<number>(excludeList);
+
+  const teams = await getTeams();
+  const race = await repos().races.get(raceId);
+  const coOps = await coOpsByTeam(race?.seasonId);
+  // Rotation units are teams, or co-ops under their coOpId; meta.teamsOrder lists units.
+  const unitOf = (teamId: string) => coOps.get(teamId)?.coOpId ?? teamId;
+  const allUnitIds = Array.from(new Set(teams.map(t => unitOf(t.teamId))));
+  const existingOrder = (existingMeta?.meta?.teamsOrder ?? []).filter(id => allUnitIds.includes(id));
+  const remainingUnits = allUnitIds.filter(id => !existingOrder.includes(id));
+  const baseTeamOrder = existingOrder.length
+    ? [...existingOrder, ...shuffle(remainingUnits)]
+    : shuffle(allUnitIds.slice());
+  const rosterByUnit: Record<string, RosterEntry[]> = {};
+  for (const team of teams) {
+    (rosterByUnit[unitOf(team.teamId)] ??= []).push(...await getRoster(raceId, team.teamId));
+  }
+  // Co-op members keep their own start orders; merge them so equal positions alternate between
+  // members in the order the co-op lists them, then renumber within the unit.
+  for (const coOp of new Set(coOps.values())) {
+    const memberRank = (e: RosterEntry) => coOp.teamIds.indexOf(e.teamId);
+    const next: Record<string, number> = {};
+    rosterByUnit[coOp.coOpId] = (rosterByUnit[coOp.coOpId] ?? [])
+      .filter(e => e.startOrder != null)
+      .sort((a, b) => (a.startOrder ?? 0) - (b.startOrder ?? 0) || memberRank(a) - memberRank(b))
+      .map(e => {
+        const key = `${e.gender}|${e.class}`;
+        next[key] = (next[key] ?? 0) + 1;
+        return { ...e, startOrder: next[key] };
+      });
+  }
+
+  const makeGenderList = (gender: Gender): { entries: StartListEntry[]; teamOrder: string[] } => {
+    const result: StartListEntry[] = [];
+    const teamOrderAccumulator: string[] = [];
+    for (const cls of racingClassOrder) {
+      let maxPos = 0;
+      for (const uid of allUnitIds) {
+        const posMax = (rosterByUnit[uid] || [])
+          .filter(e => e.gender === gender && e.class === cls)
+          .reduce((m, e) => Math.max(m, e.startOrder ?? 0), 0);
+        maxPos = Math.max(maxPos, posMax);
+      }
+      if (maxPos === 0) continue;
+      const randomizedTeams = baseTeamOrder;
+      teamOrderAccumulator.push(...randomizedTeams);
+      for (let pos = 1; pos <= maxPos; pos++) {
+        const forward = (pos % 2) === 1;
+        const order = forward ? randomizedTeams : randomizedTeams.slice().reverse();
+        for (const uid of order) {
+          const entry = (rosterByUnit[uid] || []).find(
+            e => e.gender === gender && e.class === cls && e.startOrder === pos
+          );
+          if (!entry) continue;
+          // The racer's home team, also within a co-op.
+          const team = teams.find(t => t.teamId === entry.teamId);
+          const racer = team?.racers.find(r => r.racerId === entry.racerId);
+          if (!racer || !team) continue;
+          result.push(withCoOp({
+            raceId,
+            racerId: entry.racerId,
+            racerName: racer.name,
+            teamId: team.teamId,
+            teamName: team.name,
+            gender,
+            class: cls,
+            bib: 0,
+          }, coOps));
+        }
+      }
+    }
+    return { entries: result, teamOrder: Array.from(new Set(teamOrderAccumulator)) };
+  };
+
+  const womenRes = makeGenderList("Female");
+  const menRes = makeGenderList("Male");
+  const women = womenRes.entries;
+  const men = menRes.entries;
+
+  const womenBibs = nextAvailableBib(1, excludedSet, women.length);
+  women.forEach((s, i) => s.bib = womenBibs[i]);
+
+  const menBibs = nextAvailableBib(100, excludedSet, men.length);
+  men.forEach((s, i) => s.bib = menBibs[i]);
+
+  const full = [...women, ...men];
+
+  await deleteExistingStartList(raceId);
+  await putExcludedBibs(raceId, excludeList);
+  const meta: StartListMeta = { teamsOrder: Array.from(new Set([...womenRes.teamOrder, ...menRes.teamOrder])) };
+  await repos().startLists.putSettings(raceId, { excludedBibs: excludeList, meta });
+  for (const entry of full) {
+    await repos().startLists.putEntry(entry);
+  }
+
+  return { entries: full, meta };
+}
+
 export const startlistRouter = async (e: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
   const method = e.requestContext.http.method;
   const raceId = e.pathParameters?.["raceId"];
-  if (!raceId) return { statusCode: 400, body: JSON.stringify({ error: "raceId required" }) };
+  if (!raceId) throw new ValidationError("raceId required");
+
+  // Generating needs final rosters; hand corrections are fine until results come in.
+  if (method !== "GET") {
+    const regenerates = e.rawPath.endsWith("/generate") || e.rawPath.endsWith("/copy");
+    await requireRaceStatus(
+      raceId,
+      regenerates ? ["rosters_locked"] : ["rosters_locked", "start_list_published"],
+      regenerates ? "Generating the start list" : "Editing the start list",
+    );
+  }
 
   if (method === "GET" && e.rawPath.endsWith("/excluded")) {
     const excluded = await getExcludedBibs(raceId);
@@ -239,49 +245,25 @@ export const startlistRouter = async (e: APIGatewayProxyEventV2): Promise<APIGat
 
   if (method === "POST" && e.rawPath.endsWith("/excluded")) {
     const body = JSON.parse(e.body || "{}");
-    const excluded = Array.isArray(body.excludedBibs) ? body.excludedBibs.filter((n: any) => Number.isFinite(n)) : [];
+    const excluded = body.excludedBibs as number[];
     await putExcludedBibs(raceId, excluded);
     return { statusCode: 200, body: JSON.stringify(excluded) };
   }
 
   if (method === "POST" && e.rawPath.endsWith("/entry")) {
     const body = JSON.parse(e.body || "{}");
-    const racerId = String(body.racerId || "").trim();
+    const racerId = String(body.racerId).trim();
     const bib = Number(body.bib);
-    if (!racerId) return { statusCode: 400, body: JSON.stringify({ error: "racerId required" }) };
-    if (!Number.isInteger(bib) || bib <= 0) {
-      return { statusCode: 400, body: JSON.stringify({ error: "bib must be a positive integer" }) };
-    }
-    try {
-      const created = await addEntryToStartList(raceId, racerId, bib);
-      return { statusCode: 200, body: JSON.stringify(created) };
-    } catch (err: any) {
-      const msg = err?.message || "Failed to add start list entry";
-      if (msg.includes("not found") || msg.includes("not on this race roster")) {
-        return { statusCode: 404, body: JSON.stringify({ error: msg }) };
-      }
-      if (msg.includes("already")) return { statusCode: 409, body: JSON.stringify({ error: msg }) };
-      return { statusCode: 400, body: JSON.stringify({ error: msg }) };
-    }
+    const created = await addEntryToStartList(raceId, racerId, bib);
+    return { statusCode: 200, body: JSON.stringify(created) };
   }
 
   if (method === "PATCH" && e.rawPath.endsWith("/bib")) {
     const body = JSON.parse(e.body || "{}");
-    const racerId = String(body.racerId || "").trim();
+    const racerId = String(body.racerId).trim();
     const bib = Number(body.bib);
-    if (!racerId) return { statusCode: 400, body: JSON.stringify({ error: "racerId required" }) };
-    if (!Number.isInteger(bib) || bib <= 0) {
-      return { statusCode: 400, body: JSON.stringify({ error: "bib must be a positive integer" }) };
-    }
-    try {
-      const updated = await updateEntryBib(raceId, racerId, bib);
-      return { statusCode: 200, body: JSON.stringify(updated) };
-    } catch (err: any) {
-      const msg = err?.message || "Failed to update bib";
-      if (msg.includes("not found")) return { statusCode: 404, body: JSON.stringify({ error: msg }) };
-      if (msg.includes("already assigned")) return { statusCode: 409, body: JSON.stringify({ error: msg }) };
-      return { statusCode: 400, body: JSON.stringify({ error: msg }) };
-    }
+    const updated = await updateEntryBib(raceId, racerId, bib);
+    return { statusCode: 200, body: JSON.stringify(updated) };
   }
 
   if (method === "GET") {
@@ -291,41 +273,23 @@ export const startlistRouter = async (e: APIGatewayProxyEventV2): Promise<APIGat
 
   if (method === "POST" && e.rawPath.endsWith("/copy")) {
     const body = JSON.parse(e.body || "{}");
-    const fromRaceId = String(body.fromRaceId || "");
-    if (!fromRaceId) return { statusCode: 400, body: JSON.stringify({ error: "fromRaceId required" }) };
-    if (fromRaceId === raceId) return { statusCode: 400, body: JSON.stringify({ error: "Choose a different race to copy from" }) };
+    const fromRaceId = String(body.fromRaceId);
+    if (fromRaceId === raceId) throw new ValidationError("Choose a different race to copy from");
 
     const source = await getStartListData(fromRaceId);
     if (!source.entries.length && (!source.meta || source.excludedBibs.length === 0)) {
-      return { statusCode: 404, body: JSON.stringify({ error: "Source start list not found" }) };
+      throw new NotFoundError("Source start list not found");
     }
 
     await deleteExistingStartList(raceId);
 
-    await ddb.send(new PutCommand({
-      TableName: STARTLISTS,
-      Item: {
-        raceId,
-        bib: 0,
-        excludedBibs: source.excludedBibs,
-        ...(source.meta ? { meta: source.meta } : {}),
-      },
-    }));
+    await repos().startLists.putSettings(raceId, {
+      excludedBibs: source.excludedBibs,
+      ...(source.meta ? { meta: source.meta } : {}),
+    });
 
     for (const entry of source.entries) {
-      await ddb.send(new PutCommand({
-        TableName: STARTLISTS,
-        Item: {
-          raceId,
-          bib: entry.bib,
-          racerId: entry.racerId,
-          racerName: entry.racerName,
-          teamId: entry.teamId,
-          teamName: entry.teamName,
-          gender: entry.gender,
-          class: entry.class,
-        },
-      }));
+      await repos().startLists.putEntry({ ...entry, raceId });
     }
 
     return { statusCode: 200, body: JSON.stringify({ entries: source.entries, meta: source.meta }) };
@@ -333,103 +297,9 @@ export const startlistRouter = async (e: APIGatewayProxyEventV2): Promise<APIGat
 
   if (method === "POST" && e.rawPath.endsWith("/generate")) {
     const body = JSON.parse(e.body || "{}") as { excludedBibs?: number[] };
-    const excludesFromBody = Array.isArray(body.excludedBibs) ? body.excludedBibs.filter(n => Number.isFinite(n)) : undefined;
-    const existingMeta = await getMeta(raceId);
-    const excludeList = excludesFromBody ?? existingMeta?.excludedBibs ?? await getExcludedBibs(raceId);
-    await putExcludedBibs(raceId, excludeList);
-    const excludedSet = new Set<number>(excludeList);
-
-    const teams = await getTeams() as any[];
-    const allTeamIds = teams.map(t => (t as any).teamId as string);
-    const existingOrder = (existingMeta?.meta?.teamsOrder ?? []).filter(id => allTeamIds.includes(id));
-    const remainingTeams = allTeamIds.filter(id => !existingOrder.includes(id));
-    const baseTeamOrder = existingOrder.length
-      ? [...existingOrder, ...shuffle(remainingTeams)]
-      : shuffle(allTeamIds.slice());
-    const rosterByTeam: Record<string, any[]> = {};
-    for (const tid of allTeamIds) {
-      rosterByTeam[tid] = await getRoster(raceId, tid);
-    }
-
-    const makeGenderList = (gender: Gender): { entries: StartListEntry[]; teamOrder: string[] } => {
-      const result: StartListEntry[] = [];
-      const teamOrderAccumulator: string[] = [];
-      for (const cls of racingClassOrder) {
-        let maxPos = 0;
-        for (const tid of allTeamIds) {
-          const posMax = (rosterByTeam[tid] || [])
-            .filter(e => e.gender === gender && e.class === cls)
-            .reduce((m, e) => Math.max(m, e.startOrder ?? 0), 0);
-          maxPos = Math.max(maxPos, posMax);
-        }
-        if (maxPos === 0) continue;
-        const randomizedTeams = baseTeamOrder;
-        teamOrderAccumulator.push(...randomizedTeams);
-        for (let pos = 1; pos <= maxPos; pos++) {
-          const forward = (pos % 2) === 1;
-          const order = forward ? randomizedTeams : randomizedTeams.slice().reverse();
-          for (const tid of order) {
-            const entry = (rosterByTeam[tid] || []).find(
-              (e: any) => e.gender === gender && e.class === cls && e.startOrder === pos
-            );
-            if (!entry) continue;
-            const team = teams.find(t => t.teamId === tid);
-            const racer = team?.racers.find((r: any) => r.racerId === entry.racerId);
-            if (!racer || !team) continue;
-            result.push({
-              raceId,
-              racerId: entry.racerId,
-              racerName: racer.name,
-              teamId: team.teamId,
-              teamName: team.name,
-              gender,
-              class: cls,
-              bib: 0,
-            });
-          }
-        }
-      }
-      return { entries: result, teamOrder: Array.from(new Set(teamOrderAccumulator)) };
-    };
-
-    const womenRes = makeGenderList("Female");
-    const menRes = makeGenderList("Male");
-    const women = womenRes.entries;
-    const men = menRes.entries;
-
-    const womenBibs = nextAvailableBib(1, excludedSet, women.length);
-    women.forEach((s, i) => s.bib = womenBibs[i]);
-
-    const menBibs = nextAvailableBib(100, excludedSet, men.length);
-    men.forEach((s, i) => s.bib = menBibs[i]);
-
-    const full = [...women, ...men];
-
-    await deleteExistingStartList(raceId);
-    await putExcludedBibs(raceId, excludeList);
-    const meta: StartListMeta = { teamsOrder: Array.from(new Set([...womenRes.teamOrder, ...menRes.teamOrder])) };
-    await ddb.send(new PutCommand({
-      TableName: STARTLISTS,
-      Item: { raceId, bib: 0, excludedBibs: excludeList, meta },
-    }));
-    for (const entry of full) {
-      await ddb.send(new PutCommand({
-        TableName: STARTLISTS,
-        Item: {
-          raceId,
-          bib: entry.bib,
-          racerId: entry.racerId,
-          racerName: entry.racerName,
-          teamId: entry.teamId,
-          teamName: entry.teamName,
-          gender: entry.gender,
-          class: entry.class,
-        },
-      }));
-    }
-
-    return { statusCode: 200, body: JSON.stringify({ entries: full, meta }) };
+    const generated = await generateStartList(raceId, body.excludedBibs);
+    return { statusCode: 200, body: JSON.stringify(generated) };
   }
 
-  return { statusCode: 404, body: JSON.stringify({ error: "Not found" }) };
+  throw new NotFoundError();
 };
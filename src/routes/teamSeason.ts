@@ -0,0 +1,162 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
+import { coOpsByTeam } from "../coOps";
+import { NotFoundError } from "../errors";
+import { raceStatus } from "../raceStatus";
+import { CoOp, Gender, Race, RacerClass, RaceStatus, repos, ResultGender, Season, TeamScore } from "../repos";
+import { currentSeason } from "../seasons";
+
+type RosterCounts = Partial<Record<Gender, Partial<Record<RacerClass, number>>>>;
+
+type SeasonRacer = {
+  racerId: string;
+  racerName: string;
+  gender: Gender;
+  class: RacerClass;
+  // null until the racer is on the start list, or has results.
+  bib: number | null;
+  points: number | null;
+};
+
+type SeasonRace = {
+  raceId: string;
+  name: string;
+  date: string;
+  location: string;
+  status: RaceStatus;
+  rosterCounts: RosterCounts;
+  rosterSize: number;
+  racers: SeasonRacer[];
+  teamScores: Pick<TeamScore, "gender" | "teamId" | "teamName" | "totalTimeSec" | "points">[];
+  teamPoints: number;
+};
+
+type SeasonTotals = {
+  races: number;
+  starts: number;
+  individualPoints: number;
+  teamPoints: number;
+  teamPointsByGender: Partial<Record<ResultGender, number>>;
+  racers: { racerId: string; racerName: string; races: number; points: number }[];
+};
+
+async function seasonFor(seasonId: string | undefined): Promise<Season> {
+  const season = seasonId ? await repos().seasons.get(seasonId) : await currentSeason();
+  if (!season) throw new NotFoundError(seasonId ? "Season not found" : "No season yet");
+  return season;
+}
+
+// One race as the team saw it: its roster, bibs, points and team score (its co-op's, when it has one).
+async function teamRace(race: Race, teamId: string, coOp: CoOp | undefined, racerNames: Map<string, string>): Promise<SeasonRace> {
+  const [roster, fullStartList, results] = await Promise.all([
+    repos().rosters.list(race.raceId, teamId),
+    repos().startLists.get(race.raceId),
+    repos().results.get(race.raceId),
+  ]);
+  const startList = fullStartList.entries.filter(e => e.teamId === teamId);
+  const resultEntries = results.entries.filter(e => e.teamId === teamId);
+
+  const rosterCounts: RosterCounts = {};
+  for (const entry of roster) {
+    const byClass = (rosterCounts[entry.gender] ??= {});
+    byClass[entry.class] = (byClass[entry.class] ?? 0) + 1;
+  }
+
+  // Everyone on the roster, plus anyone added to the start list or results by hand.
+  const racers = new Map<string, SeasonRacer>();
+  for (const entry of roster) {
+    racers.set(entry.racerId, {
+      racerId: entry.racerId,
+      racerName: racerNames.get(entry.racerId) ?? entry.racerId,
+      gender: entry.gender,
+      class: entry.class,
+      bib: null,
+      points: null,
+    });
+  }
+  for (const entry of startList) {
+    const racer = racers.get(entry.racerId);
+    racers.set(entry.racerId, racer
+      ? { ...racer, bib: entry.bib }
+      : { racerId: entry.racerId, racerName: entry.racerName, gender: entry.gender, class: entry.class, bib: entry.bib, points: null });
+  }
+  for (const entry of resultEntries) {
+    if (!entry.racerId) continue;
+    const racer = racers.get(entry.racerId);
+    racers.set(entry.racerId, racer
+      ? { ...racer, bib: racer.bib ?? entry.bib, points: entry.totalPoints }
+      : {
+        racerId: entry.racerId,
+        racerName: entry.racerName,
+        gender: entry.gender as Gender,
+        class: entry.class as RacerClass,
+        bib: entry.bib,
+        points: entry.totalPoints,
+      });
+  }
+
+  const teamScores = (results.summary?.teamScores ?? [])
+    .filter(s => s.teamId === teamId || s.teamId === coOp?.coOpId || s.memberTeamIds?.includes(teamId))
+    .map(s => ({ gender: s.gender, teamId: s.teamId, teamName: s.teamName, totalTimeSec: s.totalTimeSec, points: s.points }));
+
+  return {
+    raceId: race.raceId,
+    name: race.name,
+    date: race.date,
+    location: race.location,
+    status: raceStatus(race),
+    rosterCounts,
+    rosterSize: roster.length,
+    racers: Array.from(racers.values()),
+    teamScores,
+    teamPoints: teamScores.reduce((sum, s) => sum + s.points, 0),
+  };
+}
+
+function totalsOf(races: SeasonRace[]): SeasonTotals {
+  const racers = new Map<string, SeasonTotals["racers"][number]>();
+  const teamPointsByGender: SeasonTotals["teamPointsByGender"] = {};
+  for (const race of races) {
+    for (const racer of race.racers) {
+      if (racer.points === null) continue;
+      const total = racers.get(racer.racerId) ?? { racerId: racer.racerId, racerName: racer.racerName, races: 0, points: 0 };
+      racers.set(racer.racerId, { ...total, races: total.races + 1, points: total.points + racer.points });
+    }
+    for (const score of race.teamScores) {
+      teamPointsByGender[score.gender] = (teamPointsByGender[score.gender] ?? 0) + score.points;
+    }
+  }
+  const standings = Array.from(racers.values()).sort((a, b) => b.points - a.points || a.racerName.localeCompare(b.racerName));
+  return {
+    races: races.filter(r => r.rosterSize > 0 || r.racers.length > 0).length,
+    starts: standings.reduce((sum, r) => sum + r.races, 0),
+    individualPoints: standings.reduce((sum, r) => sum + r.points, 0),
+    teamPoints: races.reduce((sum, r) => sum + r.teamPoints, 0),
+    teamPointsByGender,
+    racers: standings,
+  };
+}
+
+// GET /teams/{teamId}/season: a coach's season at a glance, the current season unless ?seasonId= is given.
+export const teamSeasonRouter = async (e: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  const teamId = e.pathParameters?.["teamId"];
+  const team = teamId ? await repos().teams.get(teamId) : null;
+  if (!teamId || !team) throw new NotFoundError("Team not found");
+  const season = await seasonFor(e.queryStringParameters?.seasonId);
+  const coOp = (await coOpsByTeam(season.seasonId)).get(teamId);
+
+  // A postponed race's make-up carries its rosters and results, so only the make-up is listed.
+  const seasonRaces = (await repos().races.listBySeason(season.seasonId)).filter(r => !r.archivedAt && !r.postponedTo);
+  const racerNames = new Map((await repos().racers.listByTeam(teamId)).map(r => [r.racerId, r.name]));
+  const races = await Promise.all(seasonRaces.map(race => teamRace(race, teamId, coOp, racerNames)));
+
+  return {
+    statusCode: 200,
+    body: JSON.stringify({
+      team: { teamId, name: team.name },
+      season,
+      coOp: coOp ?? null,
+      races,
+      totals: totalsOf(races),
+    }),
+  };
+};
@@ -1,26 +1,63 @@
 import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
-import { DynamoDBDocumentClient, GetCommand, ScanCommand, QueryCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { AuthUser, canManageTeam, getAuthUser } from "../auth";
+import { unassignTeam } from "../coaches";
+import { ConflictError, NotFoundError } from "../errors";
+import { repos, Team, TeamWithRacers, User } from "../repos";
+import { normalizeTeamName, teamNames } from "../teamNames";
 
-const ddb = DynamoDBDocumentClient.from(new DynamoDBClient({}));
-const TEAMS = process.env.TEAMS_TABLE!;
-const RACERS = process.env.RACERS_TABLE!;
-
-async function getTeam(teamId: string) {
-  const t = await ddb.send(new GetCommand({ TableName: TEAMS, Key: { teamId } }));
-  if (!t.Item) return null;
+type TeamInput = Partial<Omit<Team, "coachUserIds">>;
+type TeamResponse = TeamWithRacers & { coaches: Pick<User, "userId" | "name" | "email">[] };
 
+// Coaches' emails are only shown to admins and the team's own coaches.
+async function getTeam(teamId: string, viewer: AuthUser | null): Promise<TeamResponse | null> {
+  const t = await repos().teams.get(teamId);
+  if (!t) return null;
   // get racers for team
-  const r = await ddb.send(
-    new QueryCommand({
-      TableName: RACERS,
-      IndexName: "byTeam",
-      KeyConditionExpression: "teamId = :t",
-      ExpressionAttributeValues: { ":t": teamId },
-    })
-  );
+  const racers = await repos().racers.listByTeam(teamId);
+  // Assignments are made on the user (/users); coachUserIds mirrors them.
+  const showEmail = !!viewer && canManageTeam(viewer, teamId);
+  const coaches = (await repos().users.getMany(t.coachUserIds ?? []))
+    .map(({ userId, name, email }) => ({ userId, name, ...(email && showEmail ? { email } : {}) }));
+  return { ...t, racers, coaches };
+}
+
+function cleanNames(list: string[] | undefined) {
+  return list === undefined ? undefined : Array.from(new Set(list.map(s => s.trim())));
+}
 
-  return { ...t.Item, racers: r.Items ?? [] };
+// Results import matches timing-file team names on these, so no two teams may share one.
+async function checkNames(team: Pick<Team, "teamId" | "name" | "abbreviation" | "aliases">) {
+  const taken = new Map<string, Team>();
+  for (const other of await repos().teams.list()) {
+    if (other.teamId === team.teamId) continue;
+    for (const name of teamNames(other)) taken.set(normalizeTeamName(name), other);
+  }
+  const clashes = teamNames(team)
+    .map(name => ({ name, team: taken.get(normalizeTeamName(name)) }))
+    .filter((c): c is { name: string; team: Team } => !!c.team);
+  if (clashes.length) {
+    throw new ConflictError(`${clashes.map(c => `"${c.name}"`).join(", ")} already names another team`, {
+      clashes: clashes.map(c => ({ name: c.name, teamId: c.team.teamId })),
+    });
+  }
+}
+
+// Rosters and results keep the teamId, so a team that raced can't go. Archived races count too.
+// Races are checked a batch at a time in parallel, stopping at the first batch with any, so the
+// answer names some of the races rather than all of them.
+async function teamHistory(teamId: string) {
+  const races = await repos().races.list();
+  const batchSize = 25;
+  for (let i = 0; i < races.length; i += batchSize) {
+    const hits = await Promise.all(races.slice(i, i + batchSize).map(async race => {
+      if ((await repos().rosters.count(race.raceId, teamId)) > 0) return race.raceId;
+      const scored = (await repos().results.get(race.raceId)).entries.some(e => e.teamId === teamId);
+      return scored ? race.raceId : null;
+    }));
+    const raceIds = hits.filter((id): id is string => id !== null);
+    if (raceIds.length) return raceIds;
+  }
+  return [];
 }
 
 export const teamsRouter = async (e: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
@@ -28,55 +65,91 @@ export const teamsRouter = async (e: APIGatewayProxyEventV2): Promise<APIGateway
   const params = e.pathParameters ?? {};
   const teamId = params["teamId"];
   const body = e.body ? JSON.parse(e.body) : null;
+  const viewer = await getAuthUser(e);
 
   if (method === "GET" && !teamId) {
     // Optional filter: /teams?ids=a,b,c
     const idsParam = e.queryStringParameters?.ids;
     if (idsParam) {
       const ids = idsParam.split(",").map(s => s.trim()).filter(Boolean);
-      const results = await Promise.all(ids.map(id => getTeam(id)));
+      const results = await Promise.all(ids.map(id => getTeam(id, viewer)));
       return { statusCode: 200, body: JSON.stringify(results.filter(Boolean)) };
     }
     // otherwise, all teams (with racers for convenience of current UI)
-    const scan = await ddb.send(new ScanCommand({ TableName: TEAMS }));
-    const teams = await Promise.all((scan.Items ?? []).map(t => getTeam(t.teamId)));
+    const all = await repos().teams.list();
+    const teams = await Promise.all(all.map(t => getTeam(t.teamId, viewer)));
     return { statusCode: 200, body: JSON.stringify(teams.filter(Boolean)) };
   }
 
+  if (method === "POST" && !teamId) {
+    // Field types are checked against createTeamBody before we get here.
+    const { teamId: providedId, name, abbreviation, colors, aliases, nonLeague } = (body ?? {}) as TeamInput & { name: string };
+    const { nanoid } = await import("nanoid");
+    const team: Team = {
+      teamId: providedId?.trim() || nanoid(10),
+      name: name.trim(),
+      ...(abbreviation?.trim() ? { abbreviation: abbreviation.trim() } : {}),
+      ...(colors?.length ? { colors: colors.map(c => c.trim()) } : {}),
+      ...(aliases?.length ? { aliases: cleanNames(aliases) } : {}),
+      coachUserIds: [],
+      ...(nonLeague !== undefined ? { nonLeague } : {}),
+    };
+    await checkNames(team);
+    await repos().teams.create(team);
+    return { statusCode: 200, body: JSON.stringify({ ...team, racers: [], coaches: [] }) };
+  }
+
   if (method === "GET" && teamId) {
-    const t = await getTeam(teamId);
-    if (!t) return { statusCode: 404, body: JSON.stringify({ error: "Team not found" } )};
+    const t = await getTeam(teamId, viewer);
+    if (!t) throw new NotFoundError("Team not found");
     return { statusCode: 200, body: JSON.stringify(t) };
   }
 
   if (method === "PATCH" && teamId) {
-    const { nonLeague } = body ?? {};
-    const expr: string[] = [];
-    const names: Record<string, string> = {};
-    const values: Record<string, any> = {};
+    const existing = await repos().teams.get(teamId);
+    if (!existing) throw new NotFoundError("Team not found");
+    // Field types are checked against updateTeamBody before we get here.
+    const { name, abbreviation, colors, aliases, nonLeague } = (body ?? {}) as TeamInput;
+    const patch = {
+      name: name?.trim(),
+      abbreviation: abbreviation?.trim(),
+      colors: colors?.map(c => c.trim()),
+      aliases: cleanNames(aliases),
+      nonLeague: nonLeague === undefined ? undefined : !!nonLeague,
+    };
+    await checkNames({
+      teamId,
+      name: patch.name ?? existing.name,
+      abbreviation: patch.abbreviation ?? existing.abbreviation,
+      aliases: patch.aliases ?? existing.aliases,
+    });
 
-    if (nonLeague !== undefined) {
-      expr.push("#nl = :nl");
-      names["#nl"] = "nonLeague";
-      values[":nl"] = !!nonLeague;
-    }
+    const updatedTeam = await repos().teams.update(teamId, patch);
+    if (!updatedTeam) throw new NotFoundError("Team not found");
+    const updated = await getTeam(teamId, viewer);
+    return { statusCode: 200, body: JSON.stringify(updated) };
+  }
 
-    if (!expr.length) {
-      return { statusCode: 400, body: JSON.stringify({ error: "No supported fields to update" }) };
+  // Its racers and coach assignments go with it.
+  if (method === "DELETE" && teamId) {
+    const existing = await repos().teams.get(teamId);
+    if (!existing) throw new NotFoundError("Team not found");
+    // Co-ops name their member teams; take the team out of them first.
+    const coOpIds = (await repos().coOps.list()).filter(c => c.teamIds.includes(teamId)).map(c => c.coOpId);
+    if (coOpIds.length) {
+      throw new ConflictError("Team is in a co-op; it can't be deleted", { coOpIds });
     }
-
-    await ddb.send(new UpdateCommand({
-      TableName: TEAMS,
-      Key: { teamId },
-      UpdateExpression: "SET " + expr.join(", "),
-      ExpressionAttributeNames: names,
-      ExpressionAttributeValues: values,
-    }));
-
-    const updated = await getTeam(teamId);
-    if (!updated) return { statusCode: 404, body: JSON.stringify({ error: "Team not found" }) };
-    return { statusCode: 200, body: JSON.stringify(updated) };
+    const raceIds = await teamHistory(teamId);
+    if (raceIds.length) {
+      throw new ConflictError("Team has rosters or results; it can't be deleted", { raceIds });
+    }
+    for (const racer of await repos().racers.listByTeam(teamId)) {
+      await repos().racers.delete(racer.racerId);
+    }
+    await unassignTeam(teamId, existing.coachUserIds ?? []);
+    await repos().teams.delete(teamId);
+    return { statusCode: 200, body: JSON.stringify({ ok: true }) };
   }
 
-  return { statusCode: 404, body: JSON.stringify({ error: "Not found" }) };
+  throw new NotFoundError();
 };
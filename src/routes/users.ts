@@ -0,0 +1,83 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
+import { getAuthUser } from "../auth";
+import { requireTeams, syncCoachTeams } from "../coaches";
+import { NotFoundError, UnauthorizedError, ValidationError } from "../errors";
+import { repos, Role, User } from "../repos";
+
+// Only coaches are assigned to teams; admins manage every team anyway.
+function teamIdsFor(role: Role, teamIds: string[] | undefined) {
+  if (role === "ADMIN" && teamIds?.length) {
+    throw new ValidationError("Request body is invalid", {
+      fields: [{ field: "teamIds", message: "teamIds can only be given to coaches" }],
+    });
+  }
+  return role === "ADMIN" ? [] : Array.from(new Set(teamIds ?? []));
+}
+
+export const usersRouter = async (e: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  const method = e.requestContext.http.method;
+  const userId = e.pathParameters?.["userId"];
+
+  // The signed-in user's account.
+  if (method === "GET" && e.rawPath === "/me") {
+    const me = await getAuthUser(e);
+    const user = me ? await repos().users.get(me.userId) : null;
+    if (!user) throw new UnauthorizedError();
+    return { statusCode: 200, body: JSON.stringify(user) };
+  }
+
+  if (method === "GET" && !userId) {
+    const users = (await repos().users.list()).sort((a, b) => a.name.localeCompare(b.name));
+    return { statusCode: 200, body: JSON.stringify(users) };
+  }
+
+  if (method === "POST" && !userId) {
+    // Field types and the role are checked against createUserBody before we get here.
+    const { userId: providedId, name, email, role, teamIds } = JSON.parse(e.body || "{}") as Omit<User, "userId" | "teamIds"> & {
+      userId?: string;
+      teamIds?: string[];
+    };
+    const { nanoid } = await import("nanoid");
+    const user: User = {
+      userId: providedId?.trim() || nanoid(10),
+      name: name.trim(),
+      ...(email?.trim() ? { email: email.trim() } : {}),
+      role,
+      teamIds: teamIdsFor(role, teamIds),
+    };
+    await requireTeams(user.teamIds);
+    await repos().users.create(user);
+    await syncCoachTeams(user.userId, [], user.teamIds);
+    return { statusCode: 200, body: JSON.stringify(user) };
+  }
+
+  if (!userId) throw new NotFoundError();
+  const existing = await repos().users.get(userId);
+  if (!existing) throw new NotFoundError("User not found");
+
+  if (method === "GET") {
+    return { statusCode: 200, body: JSON.stringify(existing) };
+  }
+
+  if (method === "PATCH") {
+    const { name, email, role, teamIds } = JSON.parse(e.body || "{}") as Partial<User>;
+    const nextRole = role ?? existing.role;
+    // Making a coach an admin drops their assignments.
+    const nextTeamIds = teamIds !== undefined || nextRole !== existing.role
+      ? teamIdsFor(nextRole, teamIds)
+      : existing.teamIds;
+    await requireTeams(nextTeamIds);
+    const updated = await repos().users.update(userId, { name: name?.trim(), email: email?.trim(), role, teamIds: nextTeamIds });
+    if (!updated) throw new NotFoundError("User not found");
+    await syncCoachTeams(userId, existing.teamIds, nextTeamIds);
+    return { statusCode: 200, body: JSON.stringify(updated) };
+  }
+
+  if (method === "DELETE") {
+    await syncCoachTeams(userId, existing.teamIds, []);
+    await repos().users.delete(userId);
+    return { statusCode: 200, body: JSON.stringify({ ok: true }) };
+  }
+
+  throw new NotFoundError();
+};
@@ -0,0 +1,137 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
+import { ConflictError, NotFoundError, ValidationError } from "../errors";
+import { finished, raceRuns } from "../raceFormat";
+import { Course, Gender, GENDERS, Race, repos, Venue } from "../repos";
+import { normalizeRace } from "./races";
+
+type CourseInput = Omit<Course, "courseId"> & { courseId?: string };
+
+async function toCourses(inputs: CourseInput[]): Promise<Course[]> {
+  const { nanoid } = await import("nanoid");
+  const courses = inputs.map(({ courseId, name, verticalDropM, lengthM, homologation }) => ({
+    courseId: courseId?.trim() || nanoid(6),
+    name: name.trim(),
+    ...(verticalDropM !== undefined ? { verticalDropM } : {}),
+    ...(lengthM !== undefined ? { lengthM } : {}),
+    ...(homologation?.trim() ? { homologation: homologation.trim() } : {}),
+  }));
+  const seen = new Set<string>();
+  const fields = courses.flatMap((c, i) => {
+    if (!seen.has(c.courseId)) {
+      seen.add(c.courseId);
+      return [];
+    }
+    return [{ field: `courses[${i}].courseId`, message: `courses[${i}].courseId ${c.courseId} is used twice` }];
+  });
+  if (fields.length) throw new ValidationError("Request body is invalid", { fields });
+  return courses;
+}
+
+// Races and templates keep pointing at their venue, so neither it nor a course in use can go.
+async function usedBy(venueId: string) {
+  const races = await repos().races.listByVenue(venueId);
+  const templates = (await repos().raceTemplates.list()).filter(t => t.venueId === venueId);
+  return { races, templates };
+}
+
+// The fastest finisher of every run, by gender, so times on one course can be compared across seasons.
+async function bestTimes(race: Race): Promise<Partial<Record<Gender, number>>> {
+  const runs = raceRuns(race);
+  const best: Partial<Record<Gender, number>> = {};
+  for (const entry of (await repos().results.get(race.raceId)).entries) {
+    const gender = entry.gender as Gender;
+    if (!GENDERS.includes(gender) || entry.runs.length < runs || !entry.runs.every(finished)) continue;
+    const total = entry.runs.reduce((sum, r) => sum + (r.timeSec ?? 0), 0);
+    if (best[gender] === undefined || total < best[gender]!) best[gender] = total;
+  }
+  return best;
+}
+
+export const venuesRouter = async (e: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  const method = e.requestContext.http.method;
+  const venueId = e.pathParameters?.["venueId"];
+
+  if (method === "GET" && !venueId) {
+    const venues = (await repos().venues.list()).sort((a, b) => a.name.localeCompare(b.name));
+    return { statusCode: 200, body: JSON.stringify(venues) };
+  }
+
+  if (method === "POST" && !venueId) {
+    // Field types are checked against createVenueBody before we get here.
+    const { venueId: providedId, name, address, courses } = JSON.parse(e.body || "{}") as {
+      venueId?: string;
+      name: string;
+      address?: string;
+      courses?: CourseInput[];
+    };
+    const { nanoid } = await import("nanoid");
+    const venue: Venue = {
+      venueId: providedId?.trim() || nanoid(10),
+      name: name.trim(),
+      ...(address?.trim() ? { address: address.trim() } : {}),
+      courses: await toCourses(courses ?? []),
+    };
+    await repos().venues.create(venue);
+    return { statusCode: 200, body: JSON.stringify(venue) };
+  }
+
+  if (!venueId) throw new NotFoundError();
+  const existing = await repos().venues.get(venueId);
+  if (!existing) throw new NotFoundError("Venue not found");
+
+  // Every race held there, oldest first; ?courseId= narrows it to one course.
+  if (method === "GET" && e.rawPath.endsWith("/races")) {
+    const courseId = e.queryStringParameters?.courseId;
+    const races = (await repos().races.listByVenue(venueId))
+      .filter(r => !r.archivedAt && (!courseId || r.courseId === courseId));
+    const items = [];
+    for (const race of races) {
+      items.push({
+        ...normalizeRace(race),
+        course: existing.courses.find(c => c.courseId === race.courseId) ?? null,
+        bestTimeSec: await bestTimes(race),
+      });
+    }
+    return { statusCode: 200, body: JSON.stringify(items) };
+  }
+
+  if (method === "GET") {
+    return { statusCode: 200, body: JSON.stringify(existing) };
+  }
+
+  if (method === "PATCH") {
+    const { name, address, courses } = JSON.parse(e.body || "{}") as {
+      name?: string;
+      address?: string;
+      courses?: CourseInput[];
+    };
+    const nextCourses = courses ? await toCourses(courses) : undefined;
+    if (nextCourses) {
+      const kept = new Set(nextCourses.map(c => c.courseId));
+      const { races, templates } = await usedBy(venueId);
+      const dropped = [...races, ...templates].filter(r => r.courseId && !kept.has(r.courseId));
+      if (dropped.length) {
+        throw new ConflictError("Courses still used by races or templates can't be removed", {
+          courseIds: [...new Set(dropped.map(r => r.courseId))],
+        });
+      }
+    }
+    const updated = await repos().venues.update(venueId, { name: name?.trim(), address: address?.trim(), courses: nextCourses });
+    if (!updated) throw new NotFoundError("Venue not found");
+    return { statusCode: 200, body: JSON.stringify(updated) };
+  }
+
+  if (method === "DELETE") {
+    const { races, templates } = await usedBy(venueId);
+    if (races.length || templates.length) {
+      throw new ConflictError("Venue is still used by races or templates", {
+        raceIds: races.map(r => r.raceId),
+        templateIds: templates.map(t => t.templateId),
+      });
+    }
+    await repos().venues.delete(venueId);
+    return { statusCode: 200, body: JSON.stringify({ ok: true }) };
+  }
+
+  throw new NotFoundError();
+};
@@ -0,0 +1,46 @@
+import { ConflictError, ValidationError } from "./errors";
+import { Gender, RacerClass, repos, RuleSet } from "./repos";
+
+// The rules every season followed before rule sets existed; used when a season names none.
+export const DEFAULT_RULES: RuleSet = {
+  ruleSetId: "default",
+  name: "Default",
+  classes: ["Varsity", "Varsity Alternate", "Jr Varsity", "Provisional"],
+  caps: {
+    Male: { Varsity: 5, "Varsity Alternate": 1 },
+    Female: { Varsity: 5, "Varsity Alternate": 1 },
+  },
+  lockedClasses: ["Provisional"],
+};
+
+// The rule set of the race's season, falling back to DEFAULT_RULES.
+export async function rulesForRace(raceId: string): Promise<RuleSet> {
+  const race = await repos().races.get(raceId);
+  const season = race?.seasonId ? await repos().seasons.get(race.seasonId) : null;
+  const ruleSet = season?.ruleSetId ? await repos().ruleSets.get(season.ruleSetId) : null;
+  return ruleSet ?? DEFAULT_RULES;
+}
+
+export function capFor(rules: RuleSet, gender: Gender, cls: RacerClass): number | undefined {
+  return rules.caps[gender]?.[cls];
+}
+
+// Position in the rule set's class order; DNS and classes it doesn't have sort last.
+export function classRank(rules: RuleSet, cls: RacerClass): number {
+  const i = rules.classes.indexOf(cls);
+  return i >= 0 ? i : rules.classes.length;
+}
+
+export function requireClass(rules: RuleSet, cls: RacerClass) {
+  if (cls !== "DNS" && !rules.classes.includes(cls)) {
+    throw new ValidationError(`${cls} is not a class under ${rules.name} rules`, { classes: rules.classes });
+  }
+}
+
+// Throws 409 when adding one more `cls` racer would go over the cap.
+export function requireUnderCap(rules: RuleSet, gender: Gender, cls: RacerClass, current: number) {
+  const cap = capFor(rules, gender, cls);
+  if (cap !== undefined && current >= cap) {
+    throw new ConflictError(`${cls} is capped at ${cap} for ${gender}.`, { class: cls, gender, cap });
+  }
+}
@@ -0,0 +1,316 @@
+import { MAX_RUNS } from "./raceFormat";
+import { GENDERS, RACE_STATUSES, RACE_TYPES, RACER_CLASSES, ROLES } from "./repos/types";
+import { ObjectSchema, Schema } from "./validation";
+
+// Request bodies for the mutating routes in src/routeTable.ts.
+
+const nonEmpty: Schema = { type: "string", minLength: 1 };
+const bib: Schema = { type: "integer", minimum: 1 };
+const bibList: Schema = { type: "array", items: bib };
+const idList: Schema = { type: "array", items: nonEmpty, minItems: 1 };
+const gender: Schema = { type: "string", enum: GENDERS };
+const racerClass: Schema = { type: "string", enum: RACER_CLASSES };
+// The UI still sends the long DNS label on some screens.
+const inputRacerClass: Schema = { type: "string", enum: [...RACER_CLASSES, "DNS - Did Not Start"] };
+
+const userFields = {
+  name: nonEmpty,
+  email: { type: "string" },
+  role: { type: "string", enum: ROLES },
+  teamIds: { type: "array", items: nonEmpty, description: "Teams a coach is assigned to" },
+} satisfies Record<string, Schema>;
+
+export const createUserBody: ObjectSchema = {
+  type: "object",
+  properties: { userId: { type: "string" }, ...userFields },
+  required: ["name", "role"],
+};
+
+export const updateUserBody: ObjectSchema = {
+  type: "object",
+  properties: userFields,
+  minProperties: 1,
+};
+
+const teamFields = {
+  name: nonEmpty,
+  abbreviation: { type: "string", minLength: 1, maxLength: 10 },
+  colors: { type: "array", items: { type: "string", minLength: 1, maxLength: 30 }, maxItems: 4 },
+  aliases: { type: "array", items: nonEmpty },
+  nonLeague: { type: "boolean" },
+} satisfies Record<string, Schema>;
+
+export const createTeamBody: ObjectSchema = {
+  type: "object",
+  properties: { teamId: { type: "string" }, ...teamFields },
+  required: ["name"],
+};
+
+export const updateTeamBody: ObjectSchema = {
+  type: "object",
+  properties: teamFields,
+  minProperties: 1,
+};
+
+const coOpFields = {
+  seasonId: nonEmpty,
+  name: nonEmpty,
+  teamIds: { type: "array", items: nonEmpty, minItems: 2, description: "Member teams" },
+} satisfies Record<string, Schema>;
+
+export const createCoOpBody: ObjectSchema = {
+  type: "object",
+  properties: { coOpId: { type: "string" }, ...coOpFields },
+  required: ["seasonId", "name", "teamIds"],
+};
+
+export const updateCoOpBody: ObjectSchema = {
+  type: "object",
+  properties: coOpFields,
+  minProperties: 1,
+};
+
+const year: Schema = { type: "integer", minimum: 1900, maximum: 2100 };
+
+// name, or firstName and lastName, is required; src/routes/racers.ts checks that and the years.
+const racerFields = {
+  name: { ...nonEmpty, description: "Defaults to \"firstName lastName\"" },
+  firstName: nonEmpty,
+  lastName: nonEmpty,
+  gender,
+  class: racerClass,
+  birthYear: year,
+  gradYear: year,
+  grade: { type: "integer", minimum: 1, maximum: 12, description: "Sets gradYear from the current school year" },
+  license: { type: "string", minLength: 1, maxLength: 20, description: "U.S. Ski & Snowboard member number or FIS code" },
+} satisfies Record<string, Schema>;
+
+export const createRacerBody: ObjectSchema = {
+  type: "object",
+  properties: racerFields,
+  required: ["gender", "class"],
+};
+
+export const updateRacerBody: ObjectSchema = {
+  type: "object",
+  properties: racerFields,
+  minProperties: 1,
+};
+
+const raceFields = {
+  seasonId: nonEmpty,
+  name: nonEmpty,
+  location: nonEmpty,
+  venueId: nonEmpty,
+  courseId: nonEmpty,
+  date: { type: "string", format: "date" },
+  type: { type: "string", enum: RACE_TYPES },
+  runs: { type: "integer", minimum: 1, maximum: MAX_RUNS },
+  independent: { type: "boolean" },
+  rosterDeadline: { type: "string", format: "date-time" },
+  autoGenerateStartList: { type: "boolean" },
+} satisfies Record<string, Schema>;
+
+export const createRaceBody: ObjectSchema = {
+  type: "object",
+  properties: { raceId: { type: "string" }, ...raceFields },
+  // location may be left to the venue; src/venues.ts checks that one of them is there.
+  required: ["name", "date", "type"],
+};
+
+export const updateRaceBody: ObjectSchema = {
+  type: "object",
+  properties: { ...raceFields, locked: { type: "boolean" } },
+  minProperties: 1,
+};
+
+// mode "move" changes the race's date; "makeUp" creates a new race (raceId optional) and
+// leaves the original in place, postponed.
+export const postponeRaceBody: ObjectSchema = {
+  type: "object",
+  properties: {
+    date: raceFields.date,
+    mode: { type: "string", enum: ["move", "makeUp"] },
+    raceId: nonEmpty,
+    rosterDeadline: raceFields.rosterDeadline,
+  },
+  required: ["date"],
+};
+
+const raceTemplateFields = {
+  name: nonEmpty,
+  location: nonEmpty,
+  venueId: raceFields.venueId,
+  courseId: raceFields.courseId,
+  type: raceFields.type,
+  runs: raceFields.runs,
+  independent: raceFields.independent,
+  autoGenerateStartList: raceFields.autoGenerateStartList,
+} satisfies Record<string, Schema>;
+
+export const createRaceTemplateBody: ObjectSchema = {
+  type: "object",
+  properties: { templateId: { type: "string" }, ...raceTemplateFields },
+  required: ["name", "type"],
+};
+
+export const updateRaceTemplateBody: ObjectSchema = {
+  type: "object",
+  properties: raceTemplateFields,
+  minProperties: 1,
+};
+
+// Field types are checked here; required fields only once the router has filled each row in from
+// its template (POST /races/bulk in src/routes/races.ts).
+export const bulkRacesBody: ObjectSchema = {
+  type: "object",
+  properties: {
+    races: {
+      type: "array",
+      minItems: 1,
+      maxItems: 100,
+      items: { type: "object", properties: { templateId: { type: "string" }, ...raceFields, raceId: { type: "string" } } },
+    },
+  },
+  required: ["races"],
+};
+
+// Courses are replaced as a whole list; ones without a courseId get a new one.
+const course: ObjectSchema = {
+  type: "object",
+  properties: {
+    courseId: nonEmpty,
+    name: nonEmpty,
+    verticalDropM: { type: "number", minimum: 0 },
+    lengthM: { type: "number", minimum: 0 },
+    homologation: nonEmpty,
+  },
+  required: ["name"],
+};
+
+const venueFields = {
+  name: nonEmpty,
+  address: { type: "string" },
+  courses: { type: "array", items: course },
+} satisfies Record<string, Schema>;
+
+export const createVenueBody: ObjectSchema = {
+  type: "object",
+  properties: { venueId: { type: "string" }, ...venueFields },
+  required: ["name"],
+};
+
+export const updateVenueBody: ObjectSchema = {
+  type: "object",
+  properties: venueFields,
+  minProperties: 1,
+};
+
+const seasonFields = {
+  name: nonEmpty,
+  startDate: { type: "string", format: "date" },
+  endDate: { type: "string", format: "date" },
+  ruleSetId: { type: "string" },
+} satisfies Record<string, Schema>;
+
+export const createSeasonBody: ObjectSchema = {
+  type: "object",
+  properties: { seasonId: { type: "string" }, ...seasonFields },
+  required: ["name", "startDate", "endDate"],
+};
+
+export const updateSeasonBody: ObjectSchema = {
+  type: "object",
+  properties: seasonFields,
+  minProperties: 1,
+};
+
+const ruleSetClass: Schema = { type: "string", enum: RACER_CLASSES.filter(c => c !== "DNS") };
+const classCaps: ObjectSchema = {
+  type: "object",
+  properties: Object.fromEntries(RACER_CLASSES.filter(c => c !== "DNS").map(c => [c, { type: "integer", minimum: 0 }])),
+};
+
+const ruleSetFields = {
+  name: nonEmpty,
+  classes: { type: "array", items: ruleSetClass, minItems: 1 },
+  caps: { type: "object", properties: Object.fromEntries(GENDERS.map(g => [g, classCaps])) },
+  lockedClasses: { type: "array", items: ruleSetClass },
+} satisfies Record<string, Schema>;
+
+export const createRuleSetBody: ObjectSchema = {
+  type: "object",
+  properties: { ruleSetId: { type: "string" }, ...ruleSetFields },
+  required: ["name", "classes"],
+};
+
+export const updateRuleSetBody: ObjectSchema = {
+  type: "object",
+  properties: ruleSetFields,
+  minProperties: 1,
+};
+
+export const raceStatusBody: ObjectSchema = {
+  type: "object",
+  properties: { status: { type: "string", enum: RACE_STATUSES } },
+  required: ["status"],
+};
+
+export const rosterCountsBody: ObjectSchema = {
+  type: "object",
+  properties: { raceIds: idList, teamIds: idList },
+  required: ["raceIds", "teamIds"],
+};
+
+export const rosterAddBody: ObjectSchema = {
+  type: "object",
+  properties: {
+    racerId: nonEmpty,
+    // Older clients still send these; gender and class are read from the racer.
+    rGender: { ...gender, description: "Ignored; taken from the racer" },
+    rBaseClass: { ...racerClass, description: "Ignored; taken from the racer" },
+    desiredClass: inputRacerClass,
+  },
+  required: ["racerId"],
+};
+
+export const rosterEntryBody: ObjectSchema = {
+  type: "object",
+  properties: { newClass: inputRacerClass },
+  required: ["newClass"],
+};
+
+export const rosterMoveBody: ObjectSchema = {
+  type: "object",
+  properties: { racerId: nonEmpty, direction: { type: "string", enum: ["up", "down"] } },
+  required: ["racerId", "direction"],
+};
+
+export const copyFromRaceBody: ObjectSchema = {
+  type: "object",
+  properties: { fromRaceId: nonEmpty },
+  required: ["fromRaceId"],
+};
+
+export const generateStartListBody: ObjectSchema = {
+  type: "object",
+  properties: { excludedBibs: bibList },
+};
+
+export const startListEntryBody: ObjectSchema = {
+  type: "object",
+  properties: { racerId: nonEmpty, bib },
+  required: ["racerId", "bib"],
+};
+
+export const excludedBibsBody: ObjectSchema = {
+  type: "object",
+  properties: { excludedBibs: bibList },
+  required: ["excludedBibs"],
+};
+
+export const resultsImportBody: ObjectSchema = {
+  type: "object",
+  properties: { xml: nonEmpty },
+  required: ["xml"],
+};
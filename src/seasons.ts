@@ -0,0 +1,20 @@
+import { repos, Season } from "./repos";
+
+export function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// The season whose dates contain `date` (YYYY-MM-DD).
+export function seasonForDate(seasons: Season[], date: string): Season | undefined {
+  return seasons.find(s => s.startDate <= date && date <= s.endDate);
+}
+
+// The season running today; between seasons, the one that ended last, and before the first one, that one.
+export async function currentSeason(): Promise<Season | null> {
+  const seasons = (await repos().seasons.list()).sort((a, b) => a.startDate.localeCompare(b.startDate));
+  const date = today();
+  return seasonForDate(seasons, date)
+    ?? seasons.filter(s => s.startDate <= date).pop()
+    ?? seasons[0]
+    ?? null;
+}
@@ -0,0 +1,25 @@
+import { Team } from "./repos/types";
+
+// "St. Mary's" and "ST MARYS" compare equal.
+export function normalizeTeamName(team: string | undefined): string {
+  return (team || "")
+    .replace(/[^a-z0-9]/gi, "")
+    .toLowerCase();
+}
+
+// Every name a team answers to in timing files.
+export function teamNames(team: Pick<Team, "name" | "abbreviation" | "aliases">): string[] {
+  return [team.name, ...(team.abbreviation ? [team.abbreviation] : []), ...(team.aliases ?? [])];
+}
+
+// Looks a timing-file team name ("SMA", "Hood River Valley") up by name, abbreviation or alias.
+export function teamMatcher(teams: Team[]): (name: string | undefined) => Team | undefined {
+  const byName = new Map<string, Team>();
+  for (const team of teams) {
+    for (const name of teamNames(team)) {
+      const key = normalizeTeamName(name);
+      if (key && !byName.has(key)) byName.set(key, team);
+    }
+  }
+  return name => byName.get(normalizeTeamName(name));
+}
@@ -0,0 +1,103 @@
+// A small subset of JSON Schema: enough to describe request bodies, and plain data so the
+// route table (and anything generated from it) can carry it.
+export type Schema =
+  | StringSchema
+  | { type: "integer" | "number"; minimum?: number; maximum?: number; description?: string }
+  | { type: "boolean"; description?: string }
+  | { type: "array"; items: Schema; minItems?: number; maxItems?: number; description?: string }
+  | ObjectSchema;
+
+export type StringSchema = {
+  type: "string";
+  enum?: readonly string[];
+  // Checked against the trimmed value, so minLength: 1 rejects blank strings.
+  minLength?: number;
+  maxLength?: number;
+  // date: YYYY-MM-DD; date-time: ISO 8601 with a time zone.
+  format?: "date" | "date-time";
+  description?: string;
+};
+
+export type ObjectSchema = {
+  type: "object";
+  properties: Record<string, Schema>;
+  required?: string[];
+  minProperties?: number;
+  description?: string;
+};
+
+export type FieldError = { field: string; message: string };
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+function validateValue(schema: Schema, value: unknown, field: string, errors: FieldError[]) {
+  const fail = (message: string) => errors.push({ field, message: `${field} ${message}` });
+
+  switch (schema.type) {
+    case "string": {
+      if (typeof value !== "string") return fail("must be a string");
+      const len = value.trim().length;
+      if (schema.minLength !== undefined && len < schema.minLength) {
+        return fail(schema.minLength === 1 ? "must not be empty" : `must be at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength !== undefined && len > schema.maxLength) return fail(`must be at most ${schema.maxLength} characters`);
+      if (schema.enum && !schema.enum.includes(value)) return fail(`must be one of ${schema.enum.join(", ")}`);
+      if (schema.format === "date" && !DATE_RE.test(value)) return fail("must be YYYY-MM-DD");
+      if (schema.format === "date-time" && (!DATE_TIME_RE.test(value) || Number.isNaN(Date.parse(value)))) {
+        return fail("must be an ISO 8601 date-time with a time zone");
+      }
+      return;
+    }
+    case "integer":
+    case "number": {
+      if (typeof value !== "number" || !Number.isFinite(value)) return fail(schema.type === "integer" ? "must be an integer" : "must be a number");
+      if (schema.type === "integer" && !Number.isInteger(value)) return fail("must be an integer");
+      if (schema.minimum !== undefined && value < schema.minimum) return fail(`must be >= ${schema.minimum}`);
+      if (schema.maximum !== undefined && value > schema.maximum) return fail(`must be <= ${schema.maximum}`);
+      return;
+    }
+    case "boolean":
+      if (typeof value !== "boolean") fail("must be a boolean");
+      return;
+    case "array": {
+      if (!Array.isArray(value)) return fail("must be an array");
+      if (schema.minItems !== undefined && value.length < schema.minItems) return fail(`must have at least ${schema.minItems} item(s)`);
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) return fail(`must have at most ${schema.maxItems} item(s)`);
+      value.forEach((item, i) => validateValue(schema.items, item, `${field}[${i}]`, errors));
+      return;
+    }
+    case "object":
+      validateObject(schema, value, field, errors);
+      return;
+  }
+}
+
+function validateObject(schema: ObjectSchema, value: unknown, field: string, errors: FieldError[]) {
+  const label = field || "body";
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    errors.push({ field: label, message: `${label} must be an object` });
+    return;
+  }
+  const obj = value as Record<string, unknown>;
+  const present = Object.keys(schema.properties).filter(k => obj[k] !== undefined && obj[k] !== null);
+  if (schema.minProperties !== undefined && present.length < schema.minProperties) {
+    errors.push({ field: label, message: `Provide at least one of ${Object.keys(schema.properties).join(", ")}` });
+  }
+  for (const [key, prop] of Object.entries(schema.properties)) {
+    const path = field ? `${field}.${key}` : key;
+    if (obj[key] === undefined || obj[key] === null) {
+      if (schema.required?.includes(key)) errors.push({ field: path, message: `${path} is required` });
+      continue;
+    }
+    validateValue(prop, obj[key], path, errors);
+  }
+}
+
+// Returns every problem rather than stopping at the first one. Unknown properties are ignored.
+// `field` names a nested value, e.g. "races[2]", in the reported paths.
+export function validate(schema: ObjectSchema, body: unknown, field = ""): FieldError[] {
+  const errors: FieldError[] = [];
+  validateObject(schema, body, field, errors);
+  return errors;
+}
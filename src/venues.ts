@@ -0,0 +1,40 @@
+import { Course, Race, repos, Venue } from "./repos";
+import { FieldError } from "./validation";
+
+type Placement = Pick<Race, "venueId" | "courseId"> & { location?: string };
+
+// "Mt. Hood Meadows (Middle Fork)", the way locations were written before venues existed.
+export function venueLocation(venue: Venue, course?: Course) {
+  return course ? `${venue.name} (${course.name})` : venue.name;
+}
+
+export async function courseOf(race: Pick<Race, "venueId" | "courseId">): Promise<{ venue: Venue; course?: Course } | null> {
+  const venue = race.venueId ? await repos().venues.get(race.venueId) : null;
+  if (!venue) return null;
+  return { venue, course: venue.courses.find(c => c.courseId === race.courseId) };
+}
+
+// Checks that the venue exists and has the course, and fills in a missing location from them.
+// Field names are prefixed like validate()'s (`races[2].venueId`).
+export async function placeAtVenue<T extends Placement>(input: T, prefix = ""): Promise<{ input: T; errors: FieldError[] }> {
+  const at = (name: string) => (prefix ? `${prefix}.${name}` : name);
+  const errors: FieldError[] = [];
+  const { venueId, courseId } = input;
+  if (!venueId) {
+    if (courseId) errors.push({ field: at("courseId"), message: `${at("courseId")} needs a venueId` });
+    // A blank one is already a schema error.
+    if (input.location === undefined) errors.push({ field: at("location"), message: `${at("location")} is required` });
+    return { input, errors };
+  }
+
+  const venue = await repos().venues.get(venueId);
+  if (!venue) {
+    errors.push({ field: at("venueId"), message: `${at("venueId")} ${venueId} is not a venue` });
+    return { input, errors };
+  }
+  const course = courseId ? venue.courses.find(c => c.courseId === courseId) : undefined;
+  if (courseId && !course) {
+    errors.push({ field: at("courseId"), message: `${at("courseId")} ${courseId} is not a course at ${venue.name}` });
+  }
+  return { input: input.location?.trim() ? input : { ...input, location: venueLocation(venue, course) }, errors };
+}
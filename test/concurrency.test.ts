@@ -0,0 +1,71 @@
+import { repos } from "../src/repos";
+import { addRace, addRacer, ADMIN, call, COACH, etagOf, setup } from "./helpers";
+
+beforeEach(async () => {
+  await setup();
+  await addRace({ raceId: "r1", status: "rosters_open" });
+});
+
+test("reads return the version as an ETag", async () => {
+  await repos().races.update("r1", { name: "Renamed" });
+  await repos().races.claimVersion("r1", 0);
+
+  expect(await etagOf("/races/r1")).toBe("\"1\"");
+  expect(await etagOf("/races/r1/roster/t1")).toBe("\"0\"");
+});
+
+test("a write without If-Match gets 428 and the current ETag", async () => {
+  const res = await call("PATCH", "/races/r1", { as: ADMIN, body: { name: "Renamed" } });
+  expect(res.status).toBe(428);
+  expect(res.body.error.details).toEqual({ etag: "\"0\"" });
+  expect((await repos().races.get("r1"))?.name).toBe("Race r1");
+});
+
+test("a write with a stale If-Match gets 412 and the current ETag", async () => {
+  const first = await call("PATCH", "/races/r1", { as: ADMIN, ifMatch: "\"0\"", body: { name: "First" } });
+  expect(first.status).toBe(200);
+  expect(first.headers.etag).toBe("\"1\"");
+
+  const second = await call("PATCH", "/races/r1", { as: ADMIN, ifMatch: "\"0\"", body: { name: "Second" } });
+  expect(second.status).toBe(412);
+  expect(second.body.error.details).toEqual({ etag: "\"1\"" });
+  expect((await repos().races.get("r1"))?.name).toBe("First");
+});
+
+test("accepts weak and listed ETags", async () => {
+  expect((await call("PATCH", "/races/r1", { as: ADMIN, ifMatch: "W/\"0\"", body: { name: "A" } })).status).toBe(200);
+  expect((await call("PATCH", "/races/r1", { as: ADMIN, ifMatch: "\"7\", \"1\"", body: { name: "B" } })).status).toBe(200);
+});
+
+test("a write that fails hands its version back, so the same ETag can be retried", async () => {
+  const failed = await call("PATCH", "/races/r1", { as: ADMIN, ifMatch: "\"0\"", body: { venueId: "nowhere" } });
+  expect(failed.status).toBe(400);
+  expect(await etagOf("/races/r1")).toBe("\"0\"");
+
+  const retried = await call("PATCH", "/races/r1", { as: ADMIN, ifMatch: "\"0\"", body: { name: "Renamed" } });
+  expect(retried.status).toBe(200);
+  expect(retried.headers.etag).toBe("\"1\"");
+});
+
+test("rosters are versioned per team", async () => {
+  await addRacer("a", "t1", "Female", "Varsity");
+  await addRacer("b", "t1", "Female", "Varsity");
+  await addRacer("c", "t2", "Female", "Varsity");
+
+  const add = (teamId: string, racerId: string, ifMatch: string) =>
+    call("POST", `/races/r1/roster/${teamId}/add`, { as: ADMIN, ifMatch, body: { racerId } });
+  expect((await add("t1", "a", "\"0\"")).status).toBe(200);
+  // Same ETag, same roster: someone else got there first.
+  expect((await add("t1", "b", "\"0\"")).status).toBe(412);
+  // Another team's roster has its own version.
+  expect((await add("t2", "c", "\"0\"")).status).toBe(200);
+  expect(await repos().rosters.list("r1", "t1")).toHaveLength(1);
+});
+
+test("a refused roster add leaves the roster version alone", async () => {
+  await addRacer("x", "t2", "Female", "Varsity");
+
+  const res = await call("POST", "/races/r1/roster/t1/add", { as: COACH, ifMatch: "\"0\"", body: { racerId: "x" } });
+  expect(res.status).toBe(400);
+  expect(await repos().rosters.getVersion("r1", "t1")).toBe(0);
+});
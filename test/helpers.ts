@@ -0,0 +1,80 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyStructuredResultV2 } from "aws-lambda";
+import { createHmac } from "crypto";
+import { handler } from "../src/index";
+import { Gender, Race, RacerClass, repos, useRepos } from "../src/repos";
+import { createMemoryRepos } from "../src/repos/memory";
+
+const SECRET = "test-secret";
+process.env.JWT_SECRET = SECRET;
+delete process.env.JWT_PUBLIC_KEY;
+delete process.env.JWT_ISSUER;
+
+export const ADMIN = "admin";
+// Coaches t1.
+export const COACH = "coach";
+
+export function token(userId: string) {
+  const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString("base64url");
+  const input = `${encode({ alg: "HS256", typ: "JWT" })}.${encode({ sub: userId })}`;
+  return `${input}.${createHmac("sha256", SECRET).update(input).digest("base64url")}`;
+}
+
+type CallOptions = {
+  as?: string;
+  body?: unknown;
+  query?: Record<string, string>;
+  ifMatch?: string;
+  idempotencyKey?: string;
+};
+
+export type CallResult = { status: number; headers: Record<string, string>; body: any };
+
+// Runs one request through the Lambda handler: routing, auth, validation, versions and all.
+export async function call(method: string, path: string, opts: CallOptions = {}): Promise<CallResult> {
+  const headers: Record<string, string> = {};
+  if (opts.as) headers.authorization = `Bearer ${token(opts.as)}`;
+  if (opts.ifMatch !== undefined) headers["if-match"] = opts.ifMatch;
+  if (opts.idempotencyKey !== undefined) headers["idempotency-key"] = opts.idempotencyKey;
+  const event = {
+    requestContext: { http: { method } },
+    rawPath: path,
+    headers,
+    queryStringParameters: opts.query,
+    body: opts.body === undefined ? undefined : JSON.stringify(opts.body),
+  } as unknown as APIGatewayProxyEventV2;
+  const res = (await handler(event)) as APIGatewayProxyStructuredResultV2;
+  return {
+    status: res.statusCode ?? 200,
+    headers: Object.fromEntries(Object.entries(res.headers ?? {}).map(([k, v]) => [k, String(v)])),
+    body: res.body ? JSON.parse(res.body) : undefined,
+  };
+}
+
+// The ETag a read returns, for the If-Match of the next write.
+export async function etagOf(path: string): Promise<string> {
+  const res = await call("GET", path);
+  if (!res.headers.etag) throw new Error(`GET ${path} returned no ETag (${res.status})`);
+  return res.headers.etag;
+}
+
+// A write that sends the current ETag of `readPath` (by default `path`) as If-Match.
+export async function write(method: string, path: string, opts: CallOptions & { readPath?: string } = {}) {
+  return call(method, path, { as: ADMIN, ...opts, ifMatch: await etagOf(opts.readPath ?? path) });
+}
+
+// Fresh in-memory repositories with an admin, a coach of t1 and teams t1 and t2.
+export async function setup() {
+  useRepos(createMemoryRepos());
+  await repos().users.put({ userId: ADMIN, name: "Admin", role: "ADMIN", teamIds: [] });
+  await repos().users.put({ userId: COACH, name: "Coach", role: "COACH", teamIds: ["t1"] });
+  await repos().teams.put({ teamId: "t1", name: "Northfield", abbreviation: "NF", coachUserIds: [COACH] });
+  await repos().teams.put({ teamId: "t2", name: "Southport", abbreviation: "SP", coachUserIds: [] });
+}
+
+export async function addRace(race: Partial<Race> & { raceId: string }) {
+  await repos().races.put({ name: `Race ${race.raceId}`, location: "Hill", date: "2026-01-10", type: "Giant Slalom", ...race });
+}
+
+export async function addRacer(racerId: string, teamId: string, gender: Gender, cls: RacerClass) {
+  await repos().racers.put({ racerId, teamId, name: `Racer ${racerId}`, gender, class: cls });
+}
@@ -0,0 +1,66 @@
+import { repos } from "../src/repos";
+import { addRace, addRacer, ADMIN, call, COACH, setup } from "./helpers";
+
+const add = (racerId: string, ifMatch: string, idempotencyKey = "k1", as = COACH) =>
+  call("POST", "/races/r1/roster/t1/add", { as, ifMatch, idempotencyKey, body: { racerId } });
+
+beforeEach(async () => {
+  await setup();
+  await addRace({ raceId: "r1", status: "rosters_open" });
+  await addRacer("a", "t1", "Female", "Varsity");
+  await addRacer("b", "t1", "Female", "Varsity");
+});
+
+test("a repeated key replays the stored response without running the write again", async () => {
+  const first = await add("a", "\"0\"");
+  expect(first.status).toBe(200);
+  expect(first.headers.etag).toBe("\"1\"");
+
+  // The If-Match is stale by now; the replay never gets that far.
+  const again = await add("a", "\"0\"");
+  expect(again.status).toBe(200);
+  expect(again.headers["idempotent-replayed"]).toBe("true");
+  expect(again.headers.etag).toBe("\"1\"");
+  expect(again.body).toEqual(first.body);
+  expect(await repos().rosters.getVersion("r1", "t1")).toBe(1);
+});
+
+test("refuses a key reused for a different request", async () => {
+  await add("a", "\"0\"");
+
+  const res = await add("b", "\"1\"");
+  expect(res.status).toBe(409);
+  expect(res.body.error.details).toEqual({ idempotencyKey: "k1" });
+  expect(await repos().rosters.list("r1", "t1")).toHaveLength(1);
+});
+
+test("keys belong to the user who sent them", async () => {
+  expect((await add("a", "\"0\"")).status).toBe(200);
+
+  const byAdmin = await add("b", "\"1\"", "k1", ADMIN);
+  expect(byAdmin.status).toBe(200);
+  expect(byAdmin.headers["idempotent-replayed"]).toBeUndefined();
+});
+
+test("a failed request frees its key for the retry", async () => {
+  const stale = await add("a", "\"5\"");
+  expect(stale.status).toBe(412);
+
+  const retried = await add("a", "\"0\"");
+  expect(retried.status).toBe(200);
+  expect(retried.headers["idempotent-replayed"]).toBeUndefined();
+});
+
+test("rejects an empty key", async () => {
+  const res = await add("a", "\"0\"", " ");
+  expect(res.status).toBe(400);
+});
+
+test("routes that aren't idempotent ignore the key", async () => {
+  const patch = (name: string, ifMatch: string) =>
+    call("PATCH", "/races/r1", { as: ADMIN, ifMatch, idempotencyKey: "k2", body: { name } });
+
+  expect((await patch("First", "\"0\"")).status).toBe(200);
+  expect((await patch("Second", "\"1\"")).status).toBe(200);
+  expect((await repos().races.get("r1"))?.name).toBe("Second");
+});
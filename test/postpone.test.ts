@@ -0,0 +1,89 @@
+import { repos } from "../src/repos";
+import { addRace, ADMIN, call, setup, write } from "./helpers";
+
+const postpone = (body: object) => write("POST", "/races/r1/postpone", { readPath: "/races/r1", body });
+
+beforeEach(async () => {
+  await setup();
+  await repos().seasons.create({ seasonId: "s1", name: "S1", startDate: "2025-11-01", endDate: "2026-03-31" });
+  await addRace({ raceId: "r1", seasonId: "s1", status: "rosters_open", rosterDeadline: "2026-01-08T17:00:00.000Z" });
+  await repos().rosters.put({ raceId: "r1", teamId: "t1", racerId: "a", gender: "Female", class: "Varsity", startOrder: 1 });
+  await repos().startLists.putEntry({
+    raceId: "r1", racerId: "a", racerName: "Racer a", teamId: "t1", teamName: "Northfield", gender: "Female", class: "Varsity", bib: 7,
+  });
+});
+
+describe("moving a race", () => {
+  test("keeps the first date and shifts the roster deadline with the race", async () => {
+    const res = await postpone({ date: "2026-01-17" });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      date: "2026-01-17",
+      originalDate: "2026-01-10",
+      rosterDeadline: "2026-01-15T17:00:00.000Z",
+      seasonId: "s1",
+    });
+
+    await postpone({ date: "2026-01-24" });
+    expect((await repos().races.get("r1"))?.originalDate).toBe("2026-01-10");
+  });
+
+  test("takes an explicit roster deadline over the shifted one", async () => {
+    const res = await postpone({ date: "2026-01-17", rosterDeadline: "2026-01-16T12:00:00Z" });
+    expect(res.body.rosterDeadline).toBe("2026-01-16T12:00:00.000Z");
+  });
+
+  test("leaves the season when moved outside every season", async () => {
+    const res = await postpone({ date: "2026-06-01" });
+    expect(res.status).toBe(200);
+    expect(res.body.seasonId).toBeUndefined();
+    expect((await repos().races.get("r1"))?.seasonId).toBeUndefined();
+  });
+
+  test("refuses the date the race is already on", async () => {
+    expect((await postpone({ date: "2026-01-10" })).status).toBe(400);
+  });
+
+  test("refuses a race with results", async () => {
+    await repos().races.update("r1", { status: "results_provisional" });
+    expect((await postpone({ date: "2026-01-17" })).status).toBe(423);
+  });
+});
+
+describe("make-up races", () => {
+  test("copy the rosters and start list and link both ways", async () => {
+    const res = await postpone({ date: "2026-01-17", mode: "makeUp", raceId: "r1m" });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ raceId: "r1", date: "2026-01-10", postponedTo: "r1m" });
+
+    expect(await repos().races.get("r1m")).toMatchObject({
+      makeUpFor: "r1",
+      date: "2026-01-17",
+      status: "rosters_open",
+      seasonId: "s1",
+      rosterDeadline: "2026-01-15T17:00:00.000Z",
+    });
+    expect(await repos().rosters.list("r1m", "t1")).toEqual([expect.objectContaining({ racerId: "a", startOrder: 1 })]);
+    expect((await repos().startLists.get("r1m")).entries).toEqual([expect.objectContaining({ racerId: "a", bib: 7 })]);
+  });
+
+  test("lock the original", async () => {
+    await postpone({ date: "2026-01-17", mode: "makeUp", raceId: "r1m" });
+
+    const res = await write("POST", "/races/r1/status", { readPath: "/races/r1", body: { status: "rosters_locked" } });
+    expect(res.status).toBe(423);
+    expect(res.body.error.details).toEqual({ postponedTo: "r1m" });
+  });
+
+  test("purging the make-up returns the original to service", async () => {
+    await postpone({ date: "2026-01-17", mode: "makeUp", raceId: "r1m" });
+    expect((await call("DELETE", "/races/r1m", { as: ADMIN, ifMatch: "\"0\"" })).status).toBe(200);
+
+    expect((await call("DELETE", "/races/r1m/purge", { as: ADMIN })).status).toBe(200);
+    expect(await repos().races.get("r1m")).toBeNull();
+    expect(await repos().rosters.list("r1m", "t1")).toEqual([]);
+    expect((await repos().races.get("r1"))?.postponedTo).toBeUndefined();
+    const res = await write("POST", "/races/r1/status", { readPath: "/races/r1", body: { status: "rosters_locked" } });
+    expect(res.status).toBe(200);
+  });
+});
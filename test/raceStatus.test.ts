@@ -0,0 +1,97 @@
+import { repos } from "../src/repos";
+import { addRace, addRacer, ADMIN, call, COACH, setup, write } from "./helpers";
+
+const setStatus = (status: string) => write("POST", "/races/r1/status", { readPath: "/races/r1", body: { status } });
+
+beforeEach(setup);
+
+test("a new race starts as a draft", async () => {
+  const res = await call("POST", "/races", { as: ADMIN, body: { raceId: "r1", name: "Opener", location: "Hill", date: "2026-01-10", type: "Slalom" } });
+  expect(res.status).toBe(200);
+  expect(res.body).toMatchObject({ status: "draft", locked: true });
+});
+
+test("walks forward one stage at a time and stamps each", async () => {
+  await addRace({ raceId: "r1", status: "draft" });
+
+  for (const status of ["rosters_open", "rosters_locked", "start_list_published", "results_provisional", "results_official"]) {
+    const res = await setStatus(status);
+    expect(res.status).toBe(200);
+    expect(res.body.status).toBe(status);
+    expect(res.body.statusChangedAt[status]).toEqual(expect.any(String));
+  }
+});
+
+test("refuses to skip a stage", async () => {
+  await addRace({ raceId: "r1", status: "draft" });
+
+  const res = await setStatus("rosters_locked");
+  expect(res.status).toBe(400);
+  expect(res.body.error.details).toEqual({ status: "draft", allowed: ["rosters_open"] });
+});
+
+test("steps back one stage to correct a mistake", async () => {
+  await addRace({ raceId: "r1", status: "results_official" });
+
+  expect((await setStatus("results_provisional")).body.status).toBe("results_provisional");
+  expect((await setStatus("rosters_open")).status).toBe(400);
+});
+
+test("races from before statuses count as open, or locked if they were", async () => {
+  await addRace({ raceId: "r1" });
+  await addRace({ raceId: "r2", locked: true });
+
+  expect((await call("GET", "/races/r1")).body.status).toBe("rosters_open");
+  expect((await call("GET", "/races/r2")).body.status).toBe("rosters_locked");
+});
+
+describe("what each stage allows", () => {
+  beforeEach(() => addRacer("v1", "t1", "Female", "Varsity"));
+  const addToRoster = () => write("POST", "/races/r1/roster/t1/add", { as: COACH, readPath: "/races/r1/roster/t1", body: { racerId: "v1" } });
+
+  test("roster edits only while rosters are open", async () => {
+    await addRace({ raceId: "r1", status: "draft" });
+    expect((await addToRoster()).status).toBe(423);
+
+    await repos().races.update("r1", { status: "rosters_open" });
+    expect((await addToRoster()).status).toBe(200);
+
+    await repos().races.update("r1", { status: "rosters_locked" });
+    const locked = await addToRoster();
+    expect(locked.status).toBe(423);
+    expect(locked.body.error.message).toBe("Rosters for this race are locked");
+  });
+
+  test("a passed roster deadline locks rosters before the job runs", async () => {
+    await addRace({ raceId: "r1", status: "rosters_open", rosterDeadline: "2020-01-01T00:00:00.000Z" });
+
+    expect((await addToRoster()).status).toBe(423);
+    expect((await call("GET", "/races/r1")).body.locked).toBe(true);
+  });
+
+  test("results import only once the start list is published", async () => {
+    await addRace({ raceId: "r1", status: "rosters_locked" });
+
+    const res = await call("POST", "/races/r1/results", { as: ADMIN, body: { xml: "<Comps></Comps>" } });
+    expect(res.status).toBe(423);
+    expect(res.body.error.details.allowed).toEqual(["start_list_published", "results_provisional"]);
+  });
+
+  test("the first import makes the results provisional and takes the next race version", async () => {
+    await addRace({ raceId: "r1", status: "start_list_published", version: 4 });
+
+    const res = await call("POST", "/races/r1/results", { as: ADMIN, body: { xml: "<Comps></Comps>" } });
+    expect(res.status).toBe(200);
+    expect(await repos().races.get("r1")).toMatchObject({ status: "results_provisional", version: 5 });
+  });
+
+  test("archived races are read-only until restored", async () => {
+    await addRace({ raceId: "r1", status: "rosters_open" });
+    expect((await call("DELETE", "/races/r1", { as: ADMIN, ifMatch: "\"0\"" })).status).toBe(200);
+
+    expect((await addToRoster()).status).toBe(423);
+    expect((await setStatus("rosters_locked")).status).toBe(423);
+    expect((await write("POST", "/races/r1/restore", { readPath: "/races/r1" })).status).toBe(200);
+    expect((await addToRoster()).status).toBe(200);
+  });
+});
@@ -0,0 +1,125 @@
+import { Gender, RacerClass, repos } from "../src/repos";
+import { addRace, ADMIN, call, setup } from "./helpers";
+
+const TEAM_NAMES: Record<string, string> = { t1: "Northfield", t2: "Southport" };
+
+async function enter(bib: number, teamId: string, gender: Gender = "Female", cls: RacerClass = "Varsity") {
+  await repos().startLists.putEntry({
+    raceId: "r1",
+    racerId: `racer${bib}`,
+    racerName: `Racer ${bib}`,
+    teamId,
+    teamName: TEAM_NAMES[teamId],
+    gender,
+    class: cls,
+    bib,
+  });
+}
+
+// One <Comp> per bib; `times` holds each run's seconds, or null for a run not finished.
+function timingFile(comps: { bib: number; times: (number | null)[] }[]) {
+  const run = (i: number, sec: number | null) => {
+    const start = 1_000_000_000;
+    const finish = sec === null ? 0 : start + sec * 1_000_000;
+    return `<Time${i}><Status>1</Status><MicroStart>${start}</MicroStart><MicroFinish>${finish}</MicroFinish></Time${i}>`;
+  };
+  const body = comps.map(c =>
+    `<Comp><Bib>${c.bib}</Bib><Name>Racer ${c.bib}</Name><Team></Team><CompClass>V</CompClass>${c.times.map((t, i) => run(i + 1, t)).join("")}</Comp>`);
+  return `<Comps><CurrentSex>F</CurrentSex>${body.join("")}</Comps>`;
+}
+
+const importResults = (xml: string) => call("POST", "/races/r1/results", { as: ADMIN, body: { xml } });
+
+beforeEach(setup);
+
+describe("N-run races", () => {
+  beforeEach(async () => {
+    await addRace({ raceId: "r1", status: "start_list_published", runs: 3 });
+    for (let bib = 1; bib <= 3; bib++) await enter(bib, "t1");
+    for (let bib = 4; bib <= 6; bib++) await enter(bib, "t2");
+  });
+
+  test("scores every run and sums the points", async () => {
+    const xml = timingFile([1, 2, 3, 4, 5, 6].map(bib => ({ bib, times: [30 + bib, 30 + bib, 30 + bib] })));
+
+    const res = await importResults(xml);
+    expect(res.status).toBe(200);
+    const first = res.body.entries[0];
+    expect(first.bib).toBe(1);
+    expect(first.runs).toEqual([
+      { status: 1, timeSec: 31, points: 100 },
+      { status: 1, timeSec: 31, points: 100 },
+      { status: 1, timeSec: 31, points: 100 },
+    ]);
+    expect(first.totalPoints).toBe(300);
+    expect(res.body.entries.map((e: { totalPoints: number }) => e.totalPoints)).toEqual([300, 240, 180, 150, 135, 120]);
+  });
+
+  test("ranks teams by their best three Varsity times over all runs", async () => {
+    const xml = timingFile([1, 2, 3, 4, 5, 6].map(bib => ({ bib, times: [30 + bib, 30 + bib, 30 + bib] })));
+
+    const { teamScores } = (await importResults(xml)).body;
+    expect(teamScores).toEqual([
+      expect.objectContaining({ gender: "Female", teamId: "t1", runTotalsSec: [96, 96, 96], totalTimeSec: 288, points: 4 }),
+      expect.objectContaining({ gender: "Female", teamId: "t2", runTotalsSec: [105, 105, 105], totalTimeSec: 315, points: 2 }),
+    ]);
+    expect(teamScores[0].runContribs[2].map((c: { bib: number }) => c.bib)).toEqual([1, 2, 3]);
+  });
+
+  test("a team without three finishers in every run gets no time and no points", async () => {
+    const xml = timingFile([
+      ...[1, 2, 3].map(bib => ({ bib, times: [30 + bib, 30 + bib, 30 + bib] })),
+      { bib: 4, times: [34, 34, 34] },
+      { bib: 5, times: [35, null, 35] },
+      { bib: 6, times: [36, 36, 36] },
+    ]);
+
+    const { entries, teamScores } = (await importResults(xml)).body;
+    expect(entries.find((e: { bib: number }) => e.bib === 5).runs[1]).toEqual({ status: 0, points: 0 });
+    const t2 = teamScores.find((s: { teamId: string }) => s.teamId === "t2");
+    expect(t2).toMatchObject({ runTotalsSec: [105, null, 105], totalTimeSec: null, points: 0 });
+    // Both teams entered three racers, so the winner still gets the points for two teams.
+    expect(teamScores.find((s: { teamId: string }) => s.teamId === "t1").points).toBe(4);
+  });
+
+  test("ignores runs past the race's run count", async () => {
+    await repos().races.update("r1", { runs: 1 });
+    const xml = timingFile([1, 2, 3, 4, 5, 6].map(bib => ({ bib, times: [30 + bib, 20, 20] })));
+
+    const { entries } = (await importResults(xml)).body;
+    expect(entries[0].runs).toHaveLength(1);
+    expect(entries[0].totalPoints).toBe(100);
+  });
+});
+
+describe("co-ops", () => {
+  beforeEach(async () => {
+    await repos().seasons.create({ seasonId: "s1", name: "S1", startDate: "2025-11-01", endDate: "2026-03-31" });
+    await addRace({ raceId: "r1", status: "start_list_published", seasonId: "s1" });
+    await enter(1, "t1");
+    await enter(2, "t1");
+    await enter(3, "t2");
+  });
+  const xml = timingFile([1, 2, 3].map(bib => ({ bib, times: [30 + bib, 30 + bib] })));
+
+  test("member teams score together as one team", async () => {
+    await repos().coOps.create({ coOpId: "co", seasonId: "s1", name: "North-South", teamIds: ["t1", "t2"] });
+
+    const { entries, teamScores } = (await importResults(xml)).body;
+    expect(entries[0]).toMatchObject({ teamId: "t1", coOpId: "co", coOpName: "North-South" });
+    expect(teamScores).toEqual([
+      expect.objectContaining({ teamId: "co", teamName: "North-South", memberTeamIds: ["t1", "t2"], totalTimeSec: 192, points: 2 }),
+    ]);
+  });
+
+  test("recalculating picks up a co-op formed after the import", async () => {
+    const before = (await importResults(xml)).body.teamScores;
+    expect(before.every((s: { totalTimeSec: number | null }) => s.totalTimeSec === null)).toBe(true);
+
+    await repos().coOps.create({ coOpId: "co", seasonId: "s1", name: "North-South", teamIds: ["t1", "t2"] });
+    const res = await call("POST", "/races/r1/results/recalc", { as: ADMIN });
+    expect(res.status).toBe(200);
+    expect(res.body.teamScores).toEqual([expect.objectContaining({ teamId: "co", memberTeamIds: ["t1", "t2"], points: 2 })]);
+    expect((await call("GET", "/races/r1/results")).body.teamScores).toEqual(res.body.teamScores);
+  });
+});
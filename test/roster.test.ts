@@ -0,0 +1,107 @@
+import { repos } from "../src/repos";
+import { addRace, addRacer, ADMIN, call, COACH, setup, write } from "./helpers";
+
+const rosterPath = "/races/r1/roster/t1";
+
+function add(racerId: string, extra: object = {}, as = COACH) {
+  return write("POST", `${rosterPath}/add`, { as, readPath: rosterPath, body: { racerId, ...extra } });
+}
+
+beforeEach(async () => {
+  await setup();
+  await addRace({ raceId: "r1", status: "rosters_open" });
+});
+
+describe("roster caps", () => {
+  test("stops at the Varsity cap per gender", async () => {
+    for (let i = 1; i <= 6; i++) await addRacer(`f${i}`, "t1", "Female", "Varsity");
+    await addRacer("m1", "t1", "Male", "Varsity");
+
+    for (let i = 1; i <= 5; i++) expect((await add(`f${i}`)).status).toBe(200);
+    const over = await add("f6");
+    expect(over.status).toBe(409);
+    expect(over.body.error.details).toEqual({ class: "Varsity", gender: "Female", cap: 5 });
+    // The men's cap is separate.
+    expect((await add("m1")).status).toBe(200);
+  });
+
+  test("uses the caps of the season's rule set", async () => {
+    await repos().ruleSets.create({
+      ruleSetId: "small",
+      name: "Small",
+      classes: ["Varsity", "Jr Varsity"],
+      caps: { Female: { Varsity: 1 } },
+      lockedClasses: [],
+    });
+    await repos().seasons.create({ seasonId: "s1", name: "S1", startDate: "2025-11-01", endDate: "2026-03-31", ruleSetId: "small" });
+    await repos().races.update("r1", { seasonId: "s1" });
+    await addRacer("f1", "t1", "Female", "Varsity");
+    await addRacer("f2", "t1", "Female", "Varsity");
+
+    expect((await add("f1")).status).toBe(200);
+    expect((await add("f2")).status).toBe(409);
+    // Jr Varsity is uncapped there.
+    expect((await add("f2", { desiredClass: "Jr Varsity" })).status).toBe(200);
+  });
+
+  test("counts a co-op partner's roster toward the cap", async () => {
+    await repos().seasons.create({ seasonId: "s1", name: "S1", startDate: "2025-11-01", endDate: "2026-03-31" });
+    await repos().races.update("r1", { seasonId: "s1" });
+    await repos().coOps.create({ coOpId: "co", seasonId: "s1", name: "North-South", teamIds: ["t1", "t2"] });
+    for (let i = 1; i <= 5; i++) {
+      await addRacer(`p${i}`, "t2", "Female", "Varsity");
+      expect((await write("POST", "/races/r1/roster/t2/add", { readPath: "/races/r1/roster/t2", body: { racerId: `p${i}` } })).status).toBe(200);
+    }
+    await addRacer("f1", "t1", "Female", "Varsity");
+
+    expect((await add("f1")).status).toBe(409);
+  });
+});
+
+describe("locked classes", () => {
+  test("keeps a Provisional racer in Provisional whatever class is asked for", async () => {
+    await addRacer("p1", "t1", "Female", "Provisional");
+
+    const res = await add("p1", { desiredClass: "Varsity" });
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual([expect.objectContaining({ racerId: "p1", class: "Provisional" })]);
+  });
+
+  test("still lets a Provisional racer be entered as DNS", async () => {
+    await addRacer("p1", "t1", "Female", "Provisional");
+
+    const res = await add("p1", { desiredClass: "DNS" });
+    expect(res.body).toEqual([expect.objectContaining({ racerId: "p1", class: "DNS", startOrder: null })]);
+  });
+
+  test("takes gender and class from the racer, not the request", async () => {
+    await addRacer("p1", "t1", "Female", "Provisional");
+
+    const res = await add("p1", { rGender: "Male", rBaseClass: "Varsity", desiredClass: "Varsity" });
+    expect(res.body).toEqual([expect.objectContaining({ gender: "Female", class: "Provisional" })]);
+  });
+
+  test("refuses a racer from another team", async () => {
+    await addRacer("x1", "t2", "Female", "Varsity");
+
+    expect((await add("x1")).status).toBe(400);
+  });
+
+  test("only lets an admin reclassify a racer", async () => {
+    await addRacer("p1", "t1", "Female", "Provisional");
+
+    const byCoach = await call("PATCH", "/teams/t1/racers/p1", { as: COACH, body: { class: "Varsity" } });
+    expect(byCoach.status).toBe(403);
+    expect((await repos().racers.get("p1"))?.class).toBe("Provisional");
+    const byAdmin = await call("PATCH", "/teams/t1/racers/p1", { as: ADMIN, body: { class: "Varsity" } });
+    expect(byAdmin.status).toBe(200);
+    expect(byAdmin.body.class).toBe("Varsity");
+  });
+});
+
+test("coaches can't edit another team's roster", async () => {
+  await addRacer("x1", "t2", "Female", "Varsity");
+
+  const res = await write("POST", "/races/r1/roster/t2/add", { as: COACH, readPath: "/races/r1/roster/t2", body: { racerId: "x1" } });
+  expect(res.status).toBe(403);
+});
@@ -0,0 +1,29 @@
+import { ADMIN, call, setup } from "./helpers";
+
+const create = (seasonId: string, startDate: string, endDate: string) =>
+  call("POST", "/seasons", { as: ADMIN, body: { seasonId, name: seasonId, startDate, endDate } });
+
+beforeEach(async () => {
+  await setup();
+  await create("s1", "2025-11-01", "2026-03-31");
+});
+
+test("refuses a season that overlaps another", async () => {
+  const res = await create("s2", "2026-03-31", "2026-11-30");
+  expect(res.status).toBe(409);
+  expect(res.body.error.details).toEqual({ seasonId: "s1", startDate: "2025-11-01", endDate: "2026-03-31" });
+
+  expect((await create("s2", "2026-04-01", "2026-11-30")).status).toBe(200);
+});
+
+test("refuses an edit that runs into another season", async () => {
+  await create("s2", "2026-11-01", "2027-03-31");
+
+  expect((await call("PATCH", "/seasons/s2", { as: ADMIN, body: { startDate: "2026-03-01" } })).status).toBe(409);
+  // A season doesn't overlap itself.
+  expect((await call("PATCH", "/seasons/s1", { as: ADMIN, body: { endDate: "2026-04-15" } })).status).toBe(200);
+});
+
+test("refuses a season that ends before it starts", async () => {
+  expect((await create("s2", "2027-03-31", "2026-11-01")).status).toBe(400);
+});
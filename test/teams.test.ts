@@ -0,0 +1,57 @@
+import { repos } from "../src/repos";
+import { addRace, addRacer, ADMIN, call, COACH, setup } from "./helpers";
+
+const deleteTeam = (teamId: string) => call("DELETE", `/teams/${teamId}`, { as: ADMIN });
+
+beforeEach(setup);
+
+describe("deleting a team", () => {
+  test("removes the team, its racers and its coaches' assignments", async () => {
+    await addRace({ raceId: "r1" });
+    await addRacer("a", "t1", "Female", "Varsity");
+
+    const res = await deleteTeam("t1");
+    expect(res.status).toBe(200);
+    expect(await repos().teams.get("t1")).toBeNull();
+    expect(await repos().racers.listByTeam("t1")).toEqual([]);
+    expect((await repos().users.get(COACH))?.teamIds).toEqual([]);
+  });
+
+  test("refuses a team on a roster", async () => {
+    await addRace({ raceId: "r1" });
+    await addRacer("a", "t1", "Female", "Varsity");
+    await repos().rosters.put({ raceId: "r1", teamId: "t1", racerId: "a", gender: "Female", class: "Varsity", startOrder: 1 });
+
+    const res = await deleteTeam("t1");
+    expect(res.status).toBe(409);
+    expect(res.body.error.details).toEqual({ raceIds: ["r1"] });
+    expect(await repos().racers.listByTeam("t1")).toHaveLength(1);
+  });
+
+  test("refuses a team with results, however far down the race list", async () => {
+    for (let i = 1; i <= 30; i++) await addRace({ raceId: `r${String(i).padStart(2, "0")}` });
+    await repos().results.replace("r27", [{
+      raceId: "r27", bib: 1, racerName: "Racer a", teamId: "t1", teamName: "Northfield",
+      gender: "Female", class: "Varsity", runs: [{ status: 0 }], runPoints: [0], totalPoints: 0,
+    }], { generatedAt: "2026-01-10T00:00:00.000Z", issues: [], teamScores: [] });
+
+    const res = await deleteTeam("t1");
+    expect(res.status).toBe(409);
+    expect(res.body.error.details).toEqual({ raceIds: ["r27"] });
+    expect((await deleteTeam("t2")).status).toBe(200);
+  });
+
+  test("refuses a team in a co-op", async () => {
+    await repos().seasons.create({ seasonId: "s1", name: "S1", startDate: "2025-11-01", endDate: "2026-03-31" });
+    await repos().coOps.create({ coOpId: "co", seasonId: "s1", name: "North-South", teamIds: ["t1", "t2"] });
+
+    const res = await deleteTeam("t2");
+    expect(res.status).toBe(409);
+    expect(res.body.error.details).toEqual({ coOpIds: ["co"] });
+    expect(await repos().teams.get("t2")).not.toBeNull();
+  });
+
+  test("is for admins only", async () => {
+    expect((await call("DELETE", "/teams/t1", { as: COACH })).status).toBe(403);
+  });
+});